@@ -1,12 +1,9 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
-
-const GOOGLE_MAPS_API_KEY = process.env.GOOGLE_MAPS_API_KEY;
-
-interface DistanceResult {
-  destination: string;
-  driving: { distance: string; duration: string } | null;
-  bicycling: { distance: string; duration: string } | null;
-}
+import { ensureApiKeyFromEnv } from "../src/google";
+import { getDistances } from "../src/travel";
+import { DistanceRequest } from "../src/types";
+import { toErrorResponse } from "../src/errors";
+import { readJsonBody } from "../src/validation";
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   // Enable CORS
@@ -23,75 +20,15 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   try {
-    const { origin, destinations }: { origin: string; destinations: string[] } = req.body;
-
-    if (!origin || !destinations || !Array.isArray(destinations)) {
-      return res.status(400).json({ error: "Origin and destinations array required" });
-    }
+    ensureApiKeyFromEnv();
 
-    const results: DistanceResult[] = [];
-
-    // Fetch driving and bicycling in parallel
-    const [drivingData, bicyclingData] = await Promise.all([
-      fetchDistanceMatrix(origin, destinations, "driving"),
-      fetchDistanceMatrix(origin, destinations, "bicycling"),
-    ]);
-
-    for (let i = 0; i < destinations.length; i++) {
-      results.push({
-        destination: destinations[i],
-        driving: drivingData[i] || null,
-        bicycling: bicyclingData[i] || null,
-      });
-    }
-
-    return res.json({ results });
+    const output = await getDistances(readJsonBody(() => req.body) as DistanceRequest);
+    return res.json(output);
   } catch (error) {
-    console.error("Distance error:", error);
-    return res.status(500).json({
-      error: "Distance calculation failed",
-      message: error instanceof Error ? error.message : "Unknown error",
-    });
-  }
-}
-
-interface DistanceMatrixResponse {
-  status: string;
-  rows: Array<{
-    elements: Array<{
-      status: string;
-      distance?: { text: string; value: number };
-      duration?: { text: string; value: number };
-    }>;
-  }>;
-}
-
-async function fetchDistanceMatrix(
-  origin: string,
-  destinations: string[],
-  mode: "driving" | "bicycling"
-): Promise<Array<{ distance: string; duration: string } | null>> {
-  const destinationsParam = destinations.join("|");
-  const url = `https://maps.googleapis.com/maps/api/distancematrix/json?origins=${encodeURIComponent(
-    origin
-  )}&destinations=${encodeURIComponent(destinationsParam)}&mode=${mode}&key=${GOOGLE_MAPS_API_KEY}`;
-
-  const response = await fetch(url);
-  const data = (await response.json()) as DistanceMatrixResponse;
-
-  if (data.status !== "OK") {
-    console.error("Distance Matrix API error:", data.status);
-    return destinations.map(() => null);
-  }
-
-  const elements = data.rows[0]?.elements || [];
-  return elements.map((element) => {
-    if (element.status === "OK" && element.distance && element.duration) {
-      return {
-        distance: element.distance.text,
-        duration: element.duration.text,
-      };
+    const { status, body } = toErrorResponse(error, "Distance calculation failed");
+    if (status >= 429) {
+      console.error("Distance error:", error);
     }
-    return null;
-  });
+    return res.status(status).json(body);
+  }
 }
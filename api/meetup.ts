@@ -0,0 +1,39 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { ensureApiKeyFromEnv } from "../src/google";
+import { TurfFinder } from "../src/finder";
+import { loadSportProfilesFromEnv } from "../src/profiles";
+import { MeetupRequest } from "../src/types";
+import { toErrorResponse } from "../src/errors";
+import { readJsonBody } from "../src/validation";
+
+loadSportProfilesFromEnv();
+
+const finder = new TurfFinder();
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Enable CORS
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end();
+  }
+
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    ensureApiKeyFromEnv();
+
+    const output = await finder.meetup(readJsonBody(() => req.body) as MeetupRequest);
+    return res.json(output);
+  } catch (error) {
+    const { status, body } = toErrorResponse(error, "Meetup search failed");
+    if (status >= 429) {
+      console.error("Meetup error:", error);
+    }
+    return res.status(status).json(body);
+  }
+}
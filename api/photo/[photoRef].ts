@@ -0,0 +1,38 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { ensureApiKeyFromEnv } from "../../src/google";
+import { getProxiedPhoto, sendPhoto } from "../../src/photos";
+import { toErrorResponse } from "../../src/errors";
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Enable CORS
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "GET, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end();
+  }
+
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    // Initialize API key from environment
+    ensureApiKeyFromEnv();
+
+    const photo = await getProxiedPhoto(
+      String(req.query.photoRef || ""),
+      req.query.maxWidthPx,
+      req.query.maxHeightPx
+    );
+
+    sendPhoto(res, photo);
+  } catch (error) {
+    const { status, body } = toErrorResponse(error, "Failed to fetch photo");
+    if (status >= 429) {
+      console.error("Photo proxy error:", error);
+    }
+    return res.status(status).json(body);
+  }
+}
@@ -0,0 +1,23 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { listSportProfiles, loadSportProfilesFromEnv } from "../src/profiles";
+
+loadSportProfilesFromEnv();
+
+export default function handler(req: VercelRequest, res: VercelResponse) {
+  // Enable CORS
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "GET, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end();
+  }
+
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  return res.json({
+    sports: listSportProfiles().map(({ name, label }) => ({ name, label })),
+  });
+}
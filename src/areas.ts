@@ -0,0 +1,177 @@
+/**
+ * Polygon search areas
+ * Validates GeoJSON Polygon/MultiPolygon input, resolves bundled Bangalore locality
+ * boundaries, and works out the circle a polygon search has to cover
+ */
+
+import {
+  AreaGeometry,
+  GeoJsonFeature,
+  GeoJsonPolygon,
+  LatLng,
+  SearchArea,
+  SearchQuery,
+  ValidationError,
+} from './types';
+import { getAreaBoundingCircle } from './distance';
+
+// ============================================================================
+// Localities
+// ============================================================================
+
+export interface Locality {
+  name: string;
+  geometry: AreaGeometry;
+}
+
+/**
+ * Rectangle from south-west to north-east corners as a closed GeoJSON ring
+ */
+function box(south: number, west: number, north: number, east: number): GeoJsonPolygon {
+  return {
+    type: 'Polygon',
+    coordinates: [[[west, south], [east, south], [east, north], [west, north], [west, south]]],
+  };
+}
+
+/**
+ * Approximate Bangalore locality boundaries, simplified to bounding boxes
+ * Good enough for "turfs in HSR Layout"; pass your own GeoJSON for exact boundaries.
+ */
+const LOCALITIES: Locality[] = [
+  { name: 'HSR Layout', geometry: box(12.9, 77.625, 12.925, 77.655) },
+  { name: 'Koramangala', geometry: box(12.92, 77.61, 12.95, 77.64) },
+  { name: 'BTM Layout', geometry: box(12.905, 77.6, 12.925, 77.625) },
+  { name: 'Indiranagar', geometry: box(12.96, 77.63, 12.985, 77.65) },
+  { name: 'Whitefield', geometry: box(12.95, 77.72, 12.995, 77.77) },
+  { name: 'Marathahalli', geometry: box(12.945, 77.69, 12.97, 77.715) },
+  { name: 'Bellandur', geometry: box(12.915, 77.66, 12.94, 77.69) },
+  { name: 'Electronic City', geometry: box(12.83, 77.645, 12.86, 77.685) },
+  { name: 'Jayanagar', geometry: box(12.915, 77.575, 12.94, 77.6) },
+  { name: 'JP Nagar', geometry: box(12.885, 77.57, 12.915, 77.6) },
+  { name: 'Malleshwaram', geometry: box(12.99, 77.56, 13.015, 77.58) },
+  { name: 'Hebbal', geometry: box(13.025, 77.585, 13.05, 77.605) },
+  { name: 'Yelahanka', geometry: box(13.085, 77.58, 13.115, 77.61) },
+];
+
+export function listLocalities(): Locality[] {
+  return [...LOCALITIES];
+}
+
+/**
+ * Look up a bundled locality by name (case and spacing insensitive)
+ */
+export function getLocality(name: string): Locality {
+  const normalized = normalizeName(name);
+  const locality = LOCALITIES.find((candidate) => normalizeName(candidate.name) === normalized);
+  if (!locality) {
+    throw new ValidationError(
+      `Unknown locality "${name}". Available localities: ${LOCALITIES.map((l) => l.name).join(', ')}`
+    );
+  }
+  return locality;
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// ============================================================================
+// Area Resolution
+// ============================================================================
+
+/**
+ * Validate a request's area or locality into a search area with its covering circle
+ * @returns Null when the request has neither
+ */
+export function resolveSearchArea(area: unknown, locality: string | undefined): SearchArea | null {
+  if (area !== undefined && locality) {
+    throw new ValidationError('Use either area or locality, not both');
+  }
+
+  if (locality) {
+    const { name, geometry } = getLocality(locality);
+    return { name, geometry, ...getAreaBoundingCircle(geometry) };
+  }
+
+  if (area === undefined) {
+    return null;
+  }
+
+  const { geometry, name } = parseAreaGeoJson(area);
+  return { name, geometry, ...getAreaBoundingCircle(geometry) };
+}
+
+/**
+ * Accept a Polygon, MultiPolygon, or a Feature (or single-feature FeatureCollection) wrapping one
+ */
+export function parseAreaGeoJson(value: unknown): { geometry: AreaGeometry; name: string | null } {
+  const input = value as { type?: unknown; features?: unknown };
+
+  if (input?.type === 'FeatureCollection') {
+    const features = Array.isArray(input.features) ? input.features : [];
+    if (features.length !== 1) {
+      throw new ValidationError('area FeatureCollection must contain exactly one feature');
+    }
+    return parseAreaGeoJson(features[0]);
+  }
+
+  if (input?.type === 'Feature') {
+    const feature = value as GeoJsonFeature;
+    const name = feature.properties?.name;
+    return { geometry: validateGeometry(feature.geometry), name: typeof name === 'string' ? name : null };
+  }
+
+  return { geometry: validateGeometry(value), name: null };
+}
+
+function validateGeometry(value: unknown): AreaGeometry {
+  const geometry = value as AreaGeometry;
+
+  if (geometry?.type === 'Polygon') {
+    validatePolygon(geometry.coordinates);
+    return geometry;
+  }
+
+  if (geometry?.type === 'MultiPolygon') {
+    if (!Array.isArray(geometry.coordinates) || geometry.coordinates.length === 0) {
+      throw new ValidationError('area MultiPolygon must contain at least one polygon');
+    }
+    geometry.coordinates.forEach(validatePolygon);
+    return geometry;
+  }
+
+  throw new ValidationError('area must be a GeoJSON Polygon or MultiPolygon');
+}
+
+function validatePolygon(rings: unknown): void {
+  if (!Array.isArray(rings) || rings.length === 0) {
+    throw new ValidationError('area polygons must have at least one ring');
+  }
+
+  for (const ring of rings) {
+    if (!Array.isArray(ring) || ring.length < 4) {
+      throw new ValidationError('area polygon rings must have at least 4 positions');
+    }
+    for (const position of ring) {
+      const [lng, lat] = Array.isArray(position) ? position : [];
+      if (!isCoordinate(lng, -180, 180) || !isCoordinate(lat, -90, 90)) {
+        throw new ValidationError('area positions must be [longitude, latitude] pairs');
+      }
+    }
+  }
+}
+
+function isCoordinate(value: unknown, min: number, max: number): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+}
+
+/**
+ * Centre and radius the Places searches use: the covering circle of the area,
+ * or the query's own circle
+ */
+export function getSearchCircle(query: SearchQuery): { center: LatLng; radiusKm: number } {
+  return query.area
+    ? { center: query.area.center, radiusKm: query.area.radiusKm }
+    : { center: { lat: query.lat, lng: query.lng }, radiusKm: query.radiusKm };
+}
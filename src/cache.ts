@@ -1,15 +1,410 @@
 /**
- * Simple in-memory TTL cache for API responses
+ * TTL cache for API responses with pluggable storage
+ * Entries live in a CacheStore under a per-cache namespace, either in process
+ * memory or on disk so they survive CLI runs and serverless cold starts.
+ * Each cache has its own TTL and is bounded by entry count and approximate size,
+ * evicting the least recently used entries first.
  */
 
-import { CacheEntry, DEFAULT_CONFIG } from './types';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  CacheEntry,
+  CacheLimits,
+  CacheStats,
+  CacheStoreType,
+  CachedSearchArea,
+  DEFAULT_CONFIG,
+  SearchOutput,
+} from './types';
+
+// ============================================================================
+// Stores
+// ============================================================================
+
+export const CACHE_STORE_TYPES: CacheStoreType[] = ['memory', 'file'];
+
+/**
+ * Storage backend shared by all TtlCache instances; each cache uses its own namespace
+ */
+export interface CacheStore {
+  readonly type: CacheStoreType;
+  /** Reading an entry marks it as recently used */
+  get(namespace: string, key: string): CacheEntry<unknown> | null;
+  set(namespace: string, key: string, entry: CacheEntry<unknown>): void;
+  delete(namespace: string, key: string): boolean;
+  clear(namespace: string): void;
+  /** Remove entries that expired before `now`; returns how many were removed */
+  prune(namespace: string, now: number): number;
+  /** Remove least recently used entries until within both limits; returns how many were removed */
+  evict(namespace: string, maxEntries: number | null, maxBytes: number | null): number;
+  size(namespace: string): number;
+  bytes(namespace: string): number;
+  /** Earliest createdAt of the stored entries; null when empty */
+  oldestCreatedAt(namespace: string): number | null;
+}
+
+interface MemoryEntry extends CacheEntry<unknown> {
+  bytes: number;
+}
+
+/**
+ * Keeps entries in Maps; a Map iterates in insertion order, so entries are
+ * re-inserted on read and the first entry is always the least recently used
+ */
+export class MemoryCacheStore implements CacheStore {
+  readonly type = 'memory';
+  private readonly namespaces = new Map<string, Map<string, MemoryEntry>>();
+  private readonly totalBytes = new Map<string, number>();
+
+  get(namespace: string, key: string): CacheEntry<unknown> | null {
+    const entries = this.namespace(namespace);
+    const entry = entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    entries.delete(key);
+    entries.set(key, entry);
+    return { data: entry.data, expiresAt: entry.expiresAt, createdAt: entry.createdAt };
+  }
+
+  set(namespace: string, key: string, entry: CacheEntry<unknown>): void {
+    this.delete(namespace, key);
+    const bytes = Buffer.byteLength(JSON.stringify(entry.data) ?? '');
+    this.namespace(namespace).set(key, { ...entry, bytes });
+    this.totalBytes.set(namespace, this.bytes(namespace) + bytes);
+  }
+
+  delete(namespace: string, key: string): boolean {
+    const entries = this.namespace(namespace);
+    const entry = entries.get(key);
+    if (!entry) {
+      return false;
+    }
+
+    entries.delete(key);
+    this.totalBytes.set(namespace, this.bytes(namespace) - entry.bytes);
+    return true;
+  }
+
+  clear(namespace: string): void {
+    this.namespaces.delete(namespace);
+    this.totalBytes.delete(namespace);
+  }
+
+  prune(namespace: string, now: number): number {
+    let pruned = 0;
+
+    for (const [key, entry] of this.namespace(namespace)) {
+      if (now > entry.expiresAt) {
+        this.delete(namespace, key);
+        pruned++;
+      }
+    }
+
+    return pruned;
+  }
+
+  evict(namespace: string, maxEntries: number | null, maxBytes: number | null): number {
+    const entries = this.namespace(namespace);
+    let evicted = 0;
+
+    for (const key of entries.keys()) {
+      if (!isOverLimits(entries.size, this.bytes(namespace), maxEntries, maxBytes)) {
+        break;
+      }
+      this.delete(namespace, key);
+      evicted++;
+    }
+
+    return evicted;
+  }
+
+  size(namespace: string): number {
+    return this.namespace(namespace).size;
+  }
+
+  bytes(namespace: string): number {
+    return this.totalBytes.get(namespace) ?? 0;
+  }
+
+  oldestCreatedAt(namespace: string): number | null {
+    return earliest([...this.namespace(namespace).values()].map((entry) => entry.createdAt));
+  }
+
+  private namespace(namespace: string): Map<string, MemoryEntry> {
+    let entries = this.namespaces.get(namespace);
+    if (!entries) {
+      entries = new Map();
+      this.namespaces.set(namespace, entries);
+    }
+    return entries;
+  }
+}
+
+/**
+ * One JSON file per entry; file mtimes track recent use
+ * Entry counts and byte totals are kept as running tallies so a write only scans
+ * the directory once a limit is exceeded. Other processes sharing the directory make
+ * the tallies drift; every eviction and prune rescans, which corrects them.
+ */
+export class FileCacheStore implements CacheStore {
+  readonly type = 'file';
+  private readonly tallies = new Map<string, { entries: number; bytes: number }>();
+
+  constructor(public readonly dir: string) {}
+
+  get(namespace: string, key: string): CacheEntry<unknown> | null {
+    const filePath = this.entryPath(namespace, key);
+    const stored = this.read(filePath);
+    // Guard against hash collisions by checking the stored key
+    if (!stored || stored.key !== key) {
+      return null;
+    }
+
+    try {
+      const now = new Date();
+      fs.utimesSync(filePath, now, now);
+    } catch {
+      // Removed by another process since it was read
+    }
+    return { data: stored.data, expiresAt: stored.expiresAt, createdAt: stored.createdAt };
+  }
+
+  set(namespace: string, key: string, entry: CacheEntry<unknown>): void {
+    const filePath = this.entryPath(namespace, key);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+    const tally = this.tally(namespace);
+    const previousSize = fileSize(filePath);
+    const contents = JSON.stringify({ key, ...entry });
+
+    // Write then rename so concurrent readers never see a partial file
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, contents, 'utf-8');
+    fs.renameSync(tempPath, filePath);
+
+    tally.entries += previousSize === null ? 1 : 0;
+    tally.bytes += Buffer.byteLength(contents) - (previousSize ?? 0);
+  }
+
+  delete(namespace: string, key: string): boolean {
+    const filePath = this.entryPath(namespace, key);
+    const size = fileSize(filePath);
+    if (size === null) {
+      return false;
+    }
+    // Tally first: a first tally taken after the removal would already leave the file out
+    const tally = this.tally(namespace);
+    fs.rmSync(filePath, { force: true });
+    tally.entries--;
+    tally.bytes -= size;
+    return true;
+  }
+
+  clear(namespace: string): void {
+    fs.rmSync(path.join(this.dir, namespace), { recursive: true, force: true });
+    this.tallies.set(namespace, { entries: 0, bytes: 0 });
+  }
+
+  prune(namespace: string, now: number): number {
+    let pruned = 0;
+    for (const filePath of this.listFiles(namespace)) {
+      const stored = this.read(filePath);
+      if (!stored || now > stored.expiresAt) {
+        fs.rmSync(filePath, { force: true });
+        pruned++;
+      }
+    }
+    this.tallies.delete(namespace);
+    return pruned;
+  }
+
+  evict(namespace: string, maxEntries: number | null, maxBytes: number | null): number {
+    if (maxEntries === null && maxBytes === null) {
+      return 0;
+    }
+
+    const { entries, bytes } = this.tally(namespace);
+    if (!isOverLimits(entries, bytes, maxEntries, maxBytes)) {
+      return 0;
+    }
+
+    const files = this.statFiles(namespace).sort((a, b) => a.mtimeMs - b.mtimeMs);
+    let count = files.length;
+    let totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+    let evicted = 0;
+
+    for (const file of files) {
+      if (!isOverLimits(count, totalBytes, maxEntries, maxBytes)) {
+        break;
+      }
+      fs.rmSync(file.filePath, { force: true });
+      count--;
+      totalBytes -= file.size;
+      evicted++;
+    }
+
+    this.tallies.set(namespace, { entries: count, bytes: totalBytes });
+    return evicted;
+  }
+
+  size(namespace: string): number {
+    return this.listFiles(namespace).length;
+  }
+
+  bytes(namespace: string): number {
+    return this.statFiles(namespace).reduce((sum, file) => sum + file.size, 0);
+  }
+
+  oldestCreatedAt(namespace: string): number | null {
+    return earliest(this.listFiles(namespace).map((filePath) => this.read(filePath)?.createdAt));
+  }
+
+  /**
+   * Running entry count and byte total, from one directory scan the first time
+   */
+  private tally(namespace: string): { entries: number; bytes: number } {
+    let tally = this.tallies.get(namespace);
+    if (!tally) {
+      const files = this.statFiles(namespace);
+      tally = { entries: files.length, bytes: files.reduce((sum, file) => sum + file.size, 0) };
+      this.tallies.set(namespace, tally);
+    }
+    return tally;
+  }
+
+  private entryPath(namespace: string, key: string): string {
+    const hash = crypto.createHash('sha256').update(key).digest('hex');
+    return path.join(this.dir, namespace, `${hash}.json`);
+  }
+
+  private read(filePath: string): (CacheEntry<unknown> & { key: string }) | null {
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as CacheEntry<unknown> & { key: string };
+    } catch {
+      // Missing or unreadable entries are treated as cache misses
+      return null;
+    }
+  }
+
+  private listFiles(namespace: string): string[] {
+    try {
+      return fs
+        .readdirSync(path.join(this.dir, namespace))
+        .filter((name) => name.endsWith('.json'))
+        .map((name) => path.join(this.dir, namespace, name));
+    } catch {
+      return [];
+    }
+  }
+
+  private statFiles(namespace: string): Array<{ filePath: string; size: number; mtimeMs: number }> {
+    return this.listFiles(namespace).flatMap((filePath) => {
+      try {
+        const stat = fs.statSync(filePath);
+        return [{ filePath, size: stat.size, mtimeMs: stat.mtimeMs }];
+      } catch {
+        return [];
+      }
+    });
+  }
+}
+
+function fileSize(filePath: string): number | null {
+  try {
+    return fs.statSync(filePath).size;
+  } catch {
+    return null;
+  }
+}
+
+function earliest(times: Array<number | undefined>): number | null {
+  const known = times.filter((time): time is number => time !== undefined);
+  return known.length > 0 ? Math.min(...known) : null;
+}
+
+function isOverLimits(entries: number, bytes: number, maxEntries: number | null, maxBytes: number | null): boolean {
+  return (maxEntries !== null && entries > maxEntries) || (maxBytes !== null && bytes > maxBytes);
+}
+
+export const DEFAULT_CACHE_DIR = path.join(os.tmpdir(), 'turf-finder-cache');
+
+/**
+ * Create a store by type
+ * @param dir - Directory for the file store (defaults to CACHE_DIR, then the OS temp dir)
+ */
+export function createCacheStore(type: CacheStoreType, dir?: string): CacheStore {
+  if (type === 'file') {
+    return new FileCacheStore(dir || process.env.CACHE_DIR || DEFAULT_CACHE_DIR);
+  }
+  return new MemoryCacheStore();
+}
+
+let activeStore: CacheStore | null = null;
+
+/**
+ * Store used by all caches; chosen from CACHE_STORE (memory by default) on first use
+ */
+export function getCacheStore(): CacheStore {
+  if (!activeStore) {
+    const type = process.env.CACHE_STORE === 'file' ? 'file' : 'memory';
+    activeStore = createCacheStore(type);
+  }
+  return activeStore;
+}
+
+/**
+ * Switch all caches to another store (existing entries are not copied)
+ */
+export function setCacheStore(store: CacheStore): void {
+  activeStore = store;
+}
+
+// ============================================================================
+// TTL Cache
+// ============================================================================
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Per-cache defaults: addresses rarely move, so geocodes live for days, while
+ * search results and Place Details (hours, ratings) go stale within minutes
+ */
+export const DEFAULT_CACHE_LIMITS: Record<'geocode' | 'search' | 'areas' | 'details' | 'results', CacheLimits> = {
+  geocode: { ttlMs: 7 * DAY_MS, maxEntries: 5000, maxBytes: 5 * 1024 * 1024 },
+  search: { ttlMs: DEFAULT_CONFIG.cacheTtlMs, maxEntries: 1000, maxBytes: 50 * 1024 * 1024 },
+  // Circles of complete cached searches, per query, for spatial reuse
+  areas: { ttlMs: DEFAULT_CONFIG.cacheTtlMs, maxEntries: 500, maxBytes: 5 * 1024 * 1024 },
+  details: { ttlMs: 30 * MINUTE_MS, maxEntries: 5000, maxBytes: 50 * 1024 * 1024 },
+  // Whole search outputs; TurfFinder sets each entry's TTL from its fresh and stale windows
+  results: {
+    ttlMs: DEFAULT_CONFIG.resultCacheTtlMs + DEFAULT_CONFIG.staleWhileRevalidateMs,
+    maxEntries: 200,
+    maxBytes: 20 * 1024 * 1024,
+  },
+};
 
 export class TtlCache<T> {
-  private cache: Map<string, CacheEntry<T>> = new Map();
-  private ttlMs: number;
+  private limits: CacheLimits;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private expired = 0;
 
-  constructor(ttlMs: number = DEFAULT_CONFIG.cacheTtlMs) {
-    this.ttlMs = ttlMs;
+  /**
+   * @param namespace - Keeps this cache's keys apart from other caches in the same store
+   * @param limits - TTL and size bounds; size limits default to none
+   */
+  constructor(
+    public readonly namespace: string,
+    limits: Partial<CacheLimits> = {}
+  ) {
+    this.limits = { ttlMs: DEFAULT_CONFIG.cacheTtlMs, maxEntries: null, maxBytes: null, ...limits };
   }
 
   /**
@@ -23,84 +418,191 @@ export class TtlCache<T> {
     return sorted;
   }
 
+  get ttlMs(): number {
+    return this.limits.ttlMs;
+  }
+
+  /**
+   * Change the TTL or size limits; entries over the new size limits are evicted right away
+   * (a new TTL applies to entries set from now on)
+   */
+  configure(limits: Partial<CacheLimits>): void {
+    this.limits = { ...this.limits, ...limits };
+    this.enforceLimits();
+  }
+
   /**
    * Get a value from cache if it exists and hasn't expired
    */
   get(key: string): T | null {
-    const entry = this.cache.get(key);
+    const store = getCacheStore();
+    const entry = store.get(this.namespace, key);
     if (!entry) {
+      this.misses++;
       return null;
     }
 
     if (Date.now() > entry.expiresAt) {
       // Entry has expired, remove it
-      this.cache.delete(key);
+      store.delete(this.namespace, key);
+      this.expired++;
+      this.misses++;
       return null;
     }
 
-    return entry.data;
+    this.hits++;
+    return entry.data as T;
   }
 
   /**
-   * Set a value in the cache with TTL
+   * Get a live value without counting a hit or miss (used by dry-run planning)
    */
-  set(key: string, data: T): void {
-    this.cache.set(key, {
-      data,
-      expiresAt: Date.now() + this.ttlMs,
-    });
+  peek(key: string): T | null {
+    const entry = getCacheStore().get(this.namespace, key);
+    return entry && Date.now() <= entry.expiresAt ? (entry.data as T) : null;
   }
 
   /**
    * Check if a key exists and is not expired
    */
   has(key: string): boolean {
-    return this.get(key) !== null;
+    return this.peek(key) !== null;
+  }
+
+  /**
+   * Set a value in the cache with TTL, evicting old entries if the cache is full
+   * @param ttlMs - Overrides the cache's TTL for this entry
+   */
+  set(key: string, data: T, ttlMs: number = this.limits.ttlMs): void {
+    const now = Date.now();
+    getCacheStore().set(this.namespace, key, {
+      data,
+      expiresAt: now + ttlMs,
+      createdAt: now,
+    });
+    this.enforceLimits();
   }
 
   /**
    * Remove a specific key from cache
    */
   delete(key: string): boolean {
-    return this.cache.delete(key);
+    return getCacheStore().delete(this.namespace, key);
   }
 
   /**
    * Clear all entries from cache
    */
   clear(): void {
-    this.cache.clear();
+    getCacheStore().clear(this.namespace);
   }
 
   /**
-   * Remove all expired entries
+   * Remove all expired entries, then evict down to the size limits
+   * (other processes may have filled a shared file store)
+   * @returns The number of expired entries removed
    */
   prune(): number {
-    const now = Date.now();
-    let pruned = 0;
-
-    for (const [key, entry] of this.cache.entries()) {
-      if (now > entry.expiresAt) {
-        this.cache.delete(key);
-        pruned++;
-      }
-    }
-
+    const pruned = getCacheStore().prune(this.namespace, Date.now());
+    this.expired += pruned;
+    this.enforceLimits();
     return pruned;
   }
 
   /**
-   * Get cache statistics
+   * Get cache statistics, including hit/miss/eviction counters since the process started
    */
-  stats(): { size: number; ttlMs: number } {
+  stats(): CacheStats {
+    const store = getCacheStore();
+    const lookups = this.hits + this.misses;
+    const oldest = store.oldestCreatedAt(this.namespace);
     return {
-      size: this.cache.size,
-      ttlMs: this.ttlMs,
+      namespace: this.namespace,
+      store: store.type,
+      size: store.size(this.namespace),
+      bytes: store.bytes(this.namespace),
+      ...this.limits,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      expired: this.expired,
+      hitRate: lookups > 0 ? this.hits / lookups : null,
+      oldestEntryAgeMs: oldest !== null ? Date.now() - oldest : null,
     };
   }
+
+  /**
+   * Zero the hit/miss/eviction counters
+   */
+  resetStats(): void {
+    this.hits = 0;
+    this.misses = 0;
+    this.evictions = 0;
+    this.expired = 0;
+  }
+
+  private enforceLimits(): void {
+    this.evictions += getCacheStore().evict(this.namespace, this.limits.maxEntries, this.limits.maxBytes);
+  }
+}
+
+/** A whole search output and when it was computed, for stale-while-revalidate */
+export interface CachedSearchOutput {
+  cachedAt: number;
+  output: SearchOutput;
 }
 
 // Singleton caches for different data types
-export const geocodeCache = new TtlCache<{ lat: number; lng: number; formattedAddress: string }>();
-export const searchCache = new TtlCache<unknown>();
-export const detailsCache = new TtlCache<unknown>();
+export const geocodeCache = new TtlCache<{ lat: number; lng: number; formattedAddress: string }>(
+  'geocode',
+  DEFAULT_CACHE_LIMITS.geocode
+);
+export const searchCache = new TtlCache<unknown>('search', DEFAULT_CACHE_LIMITS.search);
+export const areaCache = new TtlCache<CachedSearchArea[]>('areas', DEFAULT_CACHE_LIMITS.areas);
+export const detailsCache = new TtlCache<unknown>('details', DEFAULT_CACHE_LIMITS.details);
+export const resultCache = new TtlCache<CachedSearchOutput>('results', DEFAULT_CACHE_LIMITS.results);
+
+/** All API response caches, for the CLI cache command and bulk operations */
+export const allCaches = [geocodeCache, searchCache, areaCache, detailsCache, resultCache];
+
+// ============================================================================
+// Background Pruning
+// ============================================================================
+
+export const DEFAULT_PRUNE_INTERVAL_MS = 5 * MINUTE_MS;
+
+let pruneTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Prune every cache
+ * @returns The number of expired entries removed
+ */
+export function pruneAllCaches(): number {
+  return allCaches.reduce((sum, cache) => sum + cache.prune(), 0);
+}
+
+/**
+ * Prune all caches on an interval, for long-running processes such as the server
+ * The timer is unref'd so it never keeps the process alive.
+ */
+export function startCachePruning(intervalMs: number = DEFAULT_PRUNE_INTERVAL_MS): void {
+  stopCachePruning();
+  pruneTimer = setInterval(() => {
+    try {
+      const pruned = pruneAllCaches();
+      if (pruned > 0) {
+        console.log(`[Cache] Pruned ${pruned} expired entr${pruned === 1 ? 'y' : 'ies'}`);
+      }
+    } catch (error) {
+      console.warn(`[Cache] Prune failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }, intervalMs);
+  pruneTimer.unref();
+}
+
+export function stopCachePruning(): void {
+  if (pruneTimer) {
+    clearInterval(pruneTimer);
+    pruneTimer = null;
+  }
+}
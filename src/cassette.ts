@@ -0,0 +1,204 @@
+/**
+ * Record and replay of Google API traffic
+ * A cassette is a JSON file of request/response pairs with the API key redacted.
+ * Recording captures every response fetchWithRetry returns; replay serves them back
+ * without touching the network, so a search can be reproduced after the live data changes.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { GoogleApiError } from './types';
+
+const CASSETTE_VERSION = 1;
+const REDACTED = 'REDACTED';
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface CassetteInteraction {
+  request: {
+    method: string;
+    /** URL with the `key` parameter redacted */
+    url: string;
+    body: string | null;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    contentType: string | null;
+    /** Text bodies are stored as-is, anything else (photos) as base64 */
+    encoding: 'utf8' | 'base64';
+    body: string;
+  };
+}
+
+export interface CassetteFile {
+  version: number;
+  recordedAt: string;
+  interactions: CassetteInteraction[];
+}
+
+export class Cassette {
+  private readonly interactions: CassetteInteraction[];
+  /** Next interaction to replay for each request, so repeated requests replay in order */
+  private readonly replayPositions = new Map<string, number>();
+
+  constructor(
+    public readonly filePath: string,
+    public readonly mode: CassetteMode,
+    interactions: CassetteInteraction[] = []
+  ) {
+    this.interactions = interactions;
+  }
+
+  /**
+   * Open a cassette for replay
+   */
+  static load(filePath: string): Cassette {
+    let parsed: CassetteFile;
+    try {
+      parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as CassetteFile;
+    } catch (error) {
+      throw new GoogleApiError(
+        `Could not read cassette ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    if (parsed.version !== CASSETTE_VERSION || !Array.isArray(parsed.interactions)) {
+      throw new GoogleApiError(`${filePath} is not a version ${CASSETTE_VERSION} cassette`);
+    }
+
+    return new Cassette(filePath, 'replay', parsed.interactions);
+  }
+
+  get size(): number {
+    return this.interactions.length;
+  }
+
+  /**
+   * Store a response and hand back an unread copy for the caller
+   * The file is rewritten after every interaction so a crash keeps what was recorded.
+   */
+  async record(url: string, init: RequestInit, response: Response): Promise<Response> {
+    const contentType = response.headers.get('content-type');
+    const data = Buffer.from(await response.arrayBuffer());
+    const isText = !contentType || /json|text/.test(contentType);
+
+    this.interactions.push({
+      request: describeRequest(url, init),
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        contentType,
+        encoding: isText ? 'utf8' : 'base64',
+        body: data.toString(isText ? 'utf-8' : 'base64'),
+      },
+    });
+    this.save();
+
+    return new Response(data, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: contentType ? { 'content-type': contentType } : {},
+    });
+  }
+
+  /**
+   * Serve the recorded response for a request
+   * Repeated identical requests get their recordings in order, then the last one again.
+   */
+  replay(url: string, init: RequestInit): Response {
+    const request = describeRequest(url, init);
+    const requestKey = JSON.stringify(request);
+    const matches = this.interactions.filter((interaction) => JSON.stringify(interaction.request) === requestKey);
+
+    if (matches.length === 0) {
+      throw new GoogleApiError(`No recorded response in ${path.basename(this.filePath)} for ${request.method} ${request.url}`, {
+        request,
+      });
+    }
+
+    const position = this.replayPositions.get(requestKey) ?? 0;
+    this.replayPositions.set(requestKey, position + 1);
+    const { response } = matches[Math.min(position, matches.length - 1)];
+
+    return new Response(Buffer.from(response.body, response.encoding === 'base64' ? 'base64' : 'utf-8'), {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.contentType ? { 'content-type': response.contentType } : {},
+    });
+  }
+
+  save(): void {
+    const file: CassetteFile = {
+      version: CASSETTE_VERSION,
+      recordedAt: new Date().toISOString(),
+      interactions: this.interactions,
+    };
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(file, null, 2), 'utf-8');
+  }
+}
+
+/**
+ * The parts of a request that identify it, with the API key removed
+ * (Places API (New) sends the key in a header, which is never stored)
+ */
+function describeRequest(url: string, init: RequestInit): CassetteInteraction['request'] {
+  const parsed = new URL(url);
+  if (parsed.searchParams.has('key')) {
+    parsed.searchParams.set('key', REDACTED);
+  }
+
+  return {
+    method: (init.method || 'GET').toUpperCase(),
+    url: parsed.toString(),
+    body: typeof init.body === 'string' ? init.body : null,
+  };
+}
+
+// ============================================================================
+// Active Cassette
+// ============================================================================
+
+let activeCassette: Cassette | null = null;
+
+/**
+ * Record all Google API traffic to a new cassette file
+ */
+export function startRecording(filePath: string): Cassette {
+  activeCassette = new Cassette(path.resolve(filePath), 'record');
+  activeCassette.save();
+  return activeCassette;
+}
+
+/**
+ * Serve all Google API requests from a cassette file instead of the network
+ */
+export function startReplay(filePath: string): Cassette {
+  activeCassette = Cassette.load(path.resolve(filePath));
+  return activeCassette;
+}
+
+export function stopCassette(): void {
+  activeCassette = null;
+}
+
+export function getActiveCassette(): Cassette | null {
+  return activeCassette;
+}
+
+/**
+ * Start recording or replay from RECORD_CASSETTE / REPLAY_CASSETTE
+ * @returns The mode that was started, if any
+ */
+export function startCassetteFromEnv(): CassetteMode | null {
+  if (process.env.REPLAY_CASSETTE) {
+    startReplay(process.env.REPLAY_CASSETTE);
+    return 'replay';
+  }
+  if (process.env.RECORD_CASSETTE) {
+    startRecording(process.env.RECORD_CASSETTE);
+    return 'record';
+  }
+  return null;
+}
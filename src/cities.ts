@@ -0,0 +1,151 @@
+/**
+ * City registry
+ * Bounds, default radius, geocoding bias and keyword tweaks for the cities the
+ * web UI suggests, so searches outside Bangalore get sensible defaults too
+ */
+
+import { City, CityBounds, SportProfile, ValidationError } from './types';
+import { GeocodeOptions } from './google';
+import { getSportProfile } from './profiles';
+
+function city(
+  id: string,
+  name: string,
+  aliases: string[],
+  [south, west, north, east]: [number, number, number, number],
+  defaultRadiusKm: number,
+  keywordTweaks: Record<string, string[]> = {}
+): City {
+  return { id, name, aliases, bounds: { north, south, east, west }, defaultRadiusKm, region: 'in', keywordTweaks };
+}
+
+/**
+ * Approximate metro bounding boxes as [south, west, north, east]
+ * Dense cities get a smaller default radius.
+ */
+const cities = new Map<string, City>(
+  [
+    city('bangalore', 'Bengaluru', ['bangalore', 'bengaluru', 'blr'], [12.7, 77.3, 13.2, 77.9], 5),
+    city('mumbai', 'Mumbai', ['mumbai', 'bombay', 'navi mumbai', 'thane'], [18.85, 72.75, 19.35, 73.15], 4, {
+      any: ['turf booking'],
+      football: ['football turf booking'],
+    }),
+    city(
+      'delhi',
+      'Delhi NCR',
+      ['delhi', 'new delhi', 'gurgaon', 'gurugram', 'noida', 'greater noida', 'faridabad', 'ghaziabad'],
+      [28.35, 76.85, 28.9, 77.55],
+      6,
+      { football: ['football ground'] }
+    ),
+    city('chennai', 'Chennai', ['chennai', 'madras'], [12.8, 80.1, 13.25, 80.35], 5),
+    city('hyderabad', 'Hyderabad', ['hyderabad', 'secunderabad', 'cyberabad'], [17.25, 78.25, 17.6, 78.65], 6, {
+      cricket: ['box cricket arena'],
+    }),
+    city('pune', 'Pune', ['pune', 'pimpri', 'chinchwad'], [18.4, 73.7, 18.7, 74.0], 5),
+    city('kolkata', 'Kolkata', ['kolkata', 'calcutta', 'howrah', 'salt lake', 'new town'], [22.45, 88.25, 22.7, 88.5], 4, {
+      football: ['football ground', 'football club'],
+    }),
+    city('ahmedabad', 'Ahmedabad', ['ahmedabad', 'gandhinagar'], [22.9, 72.45, 23.15, 72.7], 5),
+    city('jaipur', 'Jaipur', ['jaipur'], [26.75, 75.7, 27.0, 75.9], 5),
+    city('lucknow', 'Lucknow', ['lucknow'], [26.75, 80.85, 26.95, 81.05], 5),
+    city('chandigarh', 'Chandigarh', ['chandigarh', 'mohali', 'panchkula'], [30.65, 76.65, 30.8, 76.9], 5),
+    city('kochi', 'Kochi', ['kochi', 'cochin', 'ernakulam'], [9.9, 76.2, 10.1, 76.4], 5),
+    city('coimbatore', 'Coimbatore', ['coimbatore'], [10.9, 76.85, 11.1, 77.05], 5),
+    city('indore', 'Indore', ['indore'], [22.65, 75.78, 22.8, 75.95], 5),
+    city('bhopal', 'Bhopal', ['bhopal'], [23.15, 77.3, 23.32, 77.5], 5),
+    city('nashik', 'Nashik', ['nashik'], [19.9, 73.7, 20.05, 73.85], 5),
+    city('surat', 'Surat', ['surat'], [21.1, 72.75, 21.25, 72.9], 5),
+    city('vadodara', 'Vadodara', ['vadodara', 'baroda'], [22.25, 73.12, 22.37, 73.25], 5),
+    city('mysore', 'Mysuru', ['mysore', 'mysuru'], [12.25, 76.58, 12.36, 76.7], 5),
+    city('mangalore', 'Mangaluru', ['mangalore', 'mangaluru'], [12.82, 74.8, 12.95, 74.9], 5),
+    city('visakhapatnam', 'Visakhapatnam', ['visakhapatnam', 'vizag'], [17.65, 83.15, 17.8, 83.35], 5),
+    city('trivandrum', 'Thiruvananthapuram', ['trivandrum', 'thiruvananthapuram'], [8.45, 76.88, 8.6, 77.0], 5),
+    city('nagpur', 'Nagpur', ['nagpur'], [21.05, 79.0, 21.2, 79.15], 5),
+    city('patna', 'Patna', ['patna'], [25.55, 85.05, 25.65, 85.25], 5),
+    city('ranchi', 'Ranchi', ['ranchi'], [23.3, 85.25, 23.42, 85.4], 5),
+    city('bhubaneswar', 'Bhubaneswar', ['bhubaneswar'], [20.22, 85.75, 20.38, 85.9], 5),
+    city('guwahati', 'Guwahati', ['guwahati'], [26.1, 91.65, 26.2, 91.85], 5),
+    city('dehradun', 'Dehradun', ['dehradun'], [30.25, 77.95, 30.4, 78.1], 5),
+  ].map((entry): [string, City] => [entry.id, entry])
+);
+
+export function listCities(): City[] {
+  return [...cities.values()];
+}
+
+/**
+ * Look up a city by id, display name or alias
+ */
+export function getCity(name: string): City {
+  const normalized = name.trim().toLowerCase();
+  const match =
+    cities.get(normalized) ||
+    listCities().find((c) => c.name.toLowerCase() === normalized || c.aliases.includes(normalized));
+  if (!match) {
+    throw new ValidationError(`Unknown city "${name}". Available cities: ${listCities().map((c) => c.name).join(', ')}`);
+  }
+  return match;
+}
+
+/**
+ * Add or replace a city
+ */
+export function registerCity(entry: City): City {
+  cities.set(entry.id, entry);
+  return entry;
+}
+
+export function isInCityBounds(bounds: CityBounds, lat: number, lng: number): boolean {
+  return lat >= bounds.south && lat <= bounds.north && lng >= bounds.west && lng <= bounds.east;
+}
+
+/**
+ * City whose bounds contain a point; the smallest box wins where metro areas overlap
+ */
+export function findCityForPoint(lat: number, lng: number): City | null {
+  const area = ({ bounds }: City) => (bounds.north - bounds.south) * (bounds.east - bounds.west);
+  const matches = listCities()
+    .filter((c) => isInCityBounds(c.bounds, lat, lng))
+    .sort((a, b) => area(a) - area(b));
+  return matches[0] || null;
+}
+
+/**
+ * City named in free-form location text, e.g. "Andheri, Mumbai" or "Koramangala Bangalore"
+ */
+export function findCityInText(text: string): City | null {
+  const words = ` ${text.toLowerCase().replace(/[^a-z0-9]+/g, ' ')} `;
+  return listCities().find((c) => c.aliases.some((alias) => words.includes(` ${alias} `))) || null;
+}
+
+/**
+ * Geocoding bias for a city: its region, and its bounds as the preferred viewport
+ */
+export function getCityGeocodeOptions(cityId: string | null): GeocodeOptions {
+  if (!cityId) {
+    return {};
+  }
+
+  const { region, bounds } = getCity(cityId);
+  return {
+    region,
+    bounds: {
+      northeast: { lat: bounds.north, lng: bounds.east },
+      southwest: { lat: bounds.south, lng: bounds.west },
+    },
+  };
+}
+
+/**
+ * Sport profile with the city's extra keywords appended
+ */
+export function getCitySportProfile(sport: string, cityId: string | null): SportProfile {
+  const profile = getSportProfile(sport);
+  const extra = cityId ? getCity(cityId).keywordTweaks[profile.name] || [] : [];
+  if (extra.length === 0) {
+    return profile;
+  }
+
+  return { ...profile, keywords: [...profile.keywords, ...extra.filter((k) => !profile.keywords.includes(k))] };
+}
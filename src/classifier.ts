@@ -0,0 +1,152 @@
+/**
+ * Relevance classifier for discovered places
+ * Scores each place from its name tokens and Google types against a sport profile
+ */
+
+import { NearbySearchPlace, PlaceClassification, SportProfile } from './types';
+
+/** Score of a place with no signals either way (it was still found by a sports search) */
+const BASE_SCORE = 0.5;
+
+const WEIGHTS = {
+  /** First name match on one of the profile's positive keywords */
+  profileKeyword: 0.35,
+  /** Each further profile keyword match */
+  extraKeyword: 0.1,
+  /** Generic sports venue words ("arena", "sports", ...) */
+  genericKeyword: 0.15,
+  /** Place has a sports-related Google type */
+  sportsType: 0.2,
+  /** Name contains an excluded word or phrase */
+  excludeKeyword: -0.3,
+  /** Place has an excluded Google type */
+  excludeType: -0.5,
+};
+
+/** Cap on the total boost from name keywords */
+const MAX_NAME_BOOST = 0.5;
+
+const GENERIC_SPORTS_KEYWORDS = ['arena', 'sports', 'academy', 'club', 'ground', 'court', 'stadium', 'complex', 'turf'];
+
+const SPORTS_TYPES = [
+  'sports_complex',
+  'sports_club',
+  'stadium',
+  'athletic_field',
+  'sports_activity_location',
+  'playground',
+];
+
+/**
+ * Split a name into lowercase word tokens
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+/**
+ * Check if a phrase occurs in the tokens as whole consecutive words
+ * ("bar" matches "Sports Bar" but not "Barca Football Academy")
+ */
+function containsPhrase(tokens: string[], phrase: string): boolean {
+  const phraseTokens = tokenize(phrase);
+  if (phraseTokens.length === 0) {
+    return false;
+  }
+
+  for (let i = 0; i + phraseTokens.length <= tokens.length; i++) {
+    if (phraseTokens.every((token, offset) => tokens[i + offset] === token)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Score a place and decide whether it is kept
+ * @param threshold - Minimum confidence (0-1) for the place to be kept
+ */
+export function classifyPlace(
+  place: NearbySearchPlace,
+  profile: SportProfile,
+  threshold: number
+): PlaceClassification {
+  const name = place.displayName?.text || '';
+  const tokens = tokenize(name);
+  const types = place.types || [];
+  const reasons: string[] = [];
+  let score = BASE_SCORE;
+
+  // Positive name signals
+  let nameBoost = 0;
+  const profileMatches = profile.positiveKeywords.filter((keyword) => containsPhrase(tokens, keyword));
+  if (profileMatches.length > 0) {
+    nameBoost += WEIGHTS.profileKeyword + WEIGHTS.extraKeyword * (profileMatches.length - 1);
+    reasons.push(`name mentions ${profileMatches.map((k) => `"${k}"`).join(', ')}`);
+  }
+
+  const genericMatches = GENERIC_SPORTS_KEYWORDS.filter(
+    (keyword) => !profileMatches.includes(keyword) && containsPhrase(tokens, keyword)
+  );
+  if (genericMatches.length > 0) {
+    nameBoost += WEIGHTS.genericKeyword;
+    reasons.push(`name suggests a sports venue (${genericMatches.map((k) => `"${k}"`).join(', ')})`);
+  }
+  score += Math.min(nameBoost, MAX_NAME_BOOST);
+
+  // Positive type signals
+  const sportsTypes = types.filter((type) => SPORTS_TYPES.includes(type));
+  if (sportsTypes.length > 0) {
+    score += WEIGHTS.sportsType;
+    reasons.push(`Google type ${sportsTypes.join(', ')}`);
+  }
+
+  // Negative signals
+  const excludedKeywords = profile.excludeKeywords.filter((keyword) => containsPhrase(tokens, keyword));
+  if (excludedKeywords.length > 0) {
+    score += WEIGHTS.excludeKeyword;
+    reasons.push(`name mentions excluded ${excludedKeywords.map((k) => `"${k}"`).join(', ')}`);
+  }
+
+  const excludedTypes = types.filter((type) => profile.excludeTypes.includes(type));
+  if (excludedTypes.length > 0) {
+    score += WEIGHTS.excludeType;
+    reasons.push(`excluded Google type ${excludedTypes.join(', ')}`);
+  }
+
+  if (reasons.length === 0) {
+    reasons.push('no signals either way');
+  }
+
+  const confidence = Math.round(Math.min(1, Math.max(0, score)) * 100) / 100;
+
+  return {
+    placeId: place.id,
+    name: name || 'Unknown',
+    confidence,
+    kept: confidence >= threshold,
+    reasons,
+  };
+}
+
+/**
+ * Classify all places and split them into kept and rejected
+ */
+export function classifyPlaces(
+  places: NearbySearchPlace[],
+  profile: SportProfile,
+  threshold: number
+): { kept: NearbySearchPlace[]; classifications: PlaceClassification[] } {
+  const kept: NearbySearchPlace[] = [];
+  const classifications: PlaceClassification[] = [];
+
+  for (const place of places) {
+    const classification = classifyPlace(place, profile, threshold);
+    classifications.push(classification);
+    if (classification.kept) {
+      kept.push(place);
+    }
+  }
+
+  return { kept, classifications };
+}
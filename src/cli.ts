@@ -0,0 +1,798 @@
+#!/usr/bin/env node
+/**
+ * Bangalore Turf Finder CLI
+ * 
+ * Find nearby turfs in Bangalore using Google Maps/Places APIs
+ * 
+ * Usage:
+ *   node dist/cli.js --location "HSR Layout, Bengaluru" --radiusKm 5
+ *   node dist/cli.js --lat 12.9121 --lng 77.6446 --radiusKm 5 --keyword "football turf"
+ *   node dist/cli.js --locality "HSR Layout" --location "27th Main, HSR Layout"
+ *   node dist/cli.js meetup "Asha=HSR Layout" "Ravi=Indiranagar" "12.97,77.75"
+ *   node dist/cli.js cache stats
+ */
+
+import { config as dotenvConfig } from 'dotenv';
+import { Command } from 'commander';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import {
+  CliArgs,
+  SearchRequest,
+  SearchWarning,
+  MeetupOutput,
+  MeetupRanking,
+  MEETUP_RANKINGS,
+  TRAVEL_MODES,
+  TravelMode,
+  SearchPlan,
+  SearchDiagnostics,
+  SearchExplanation,
+  UsageReport,
+  RetryPolicy,
+  TurfResult,
+  DEFAULT_CONFIG,
+  DETAIL_LEVELS,
+  DetailLevel,
+  CacheStoreType,
+  TurfFinderError,
+  GoogleApiError,
+  ValidationError,
+  ConfigurationError,
+} from './types';
+import { TurfFinder } from './finder';
+import { DEFAULT_SPORT, listSportProfiles, loadSportProfilesFile } from './profiles';
+import { startRecording, startReplay } from './cassette';
+import { allCaches, createCacheStore, setCacheStore, pruneAllCaches, CACHE_STORE_TYPES, FileCacheStore } from './cache';
+import { formatDistance } from './distance';
+import { listLocalities } from './areas';
+import { parseMeetupOrigin } from './meetup';
+import { validateSearchRequest } from './validation';
+import { getErrorCode, getExitCode } from './errors';
+
+// Load environment variables
+dotenvConfig();
+
+// ============================================================================
+// CLI Setup
+// ============================================================================
+
+const program = new Command();
+
+program
+  .name('bangalore-turf-finder')
+  .description('Find nearby turfs in Bangalore using Google Maps/Places APIs')
+  .version('1.0.0')
+  // Options after a subcommand name belong to the subcommand (meetup reuses -d, -o, ...)
+  .enablePositionalOptions()
+  .option('-l, --location <address>', 'Location as text (e.g., "HSR Layout, Bengaluru")')
+  .option('--lat <latitude>', 'Latitude coordinate', parseFloat)
+  .option('--lng <longitude>', 'Longitude coordinate', parseFloat)
+  .option('-r, --radiusKm <km>', `Search radius in kilometers (default: the city's, else ${DEFAULT_CONFIG.defaultRadiusKm})`, parseFloat)
+  .option('--area <file>', 'GeoJSON Polygon/MultiPolygon file to search inside instead of a radius')
+  .option('--city <name>', 'City to search in (default: detected from the location or coordinates)')
+  .option('--locality <name>', `Bundled locality boundary to search inside (${listLocalities().map((l) => l.name).join(', ')})`)
+  .option('-s, --sport <sport>', `Sport profile (${listSportProfiles().map((p) => p.name).join('|')})`, DEFAULT_SPORT)
+  .option('--profiles <file>', 'JSON file with custom sport profiles (or set TURF_PROFILES_FILE)')
+  .option('-k, --keyword <keyword>', 'Additional keyword (e.g., "football turf", "box cricket")')
+  .option('-m, --maxResults <count>', 'Maximum discovery results', parseInt, DEFAULT_CONFIG.maxResults)
+  .option('-d, --detailsLimit <count>', 'Maximum places to fetch details for', parseInt, DEFAULT_CONFIG.detailsLimit)
+  .option('--detailLevel <level>', `Place Details fields to request (${DETAIL_LEVELS.join('|')})`, DEFAULT_CONFIG.detailLevel)
+  .option('-p, --maxPages <count>', 'Text Search pages (20 results each) to follow per keyword', parseInt, DEFAULT_CONFIG.maxPagesPerQuery)
+  .option('-o, --output <file>', 'Output JSON file path', 'results.json')
+  .option('--no-output', 'Disable JSON file output')
+  .option('--tiled', 'Split the search area into overlapping tiles for better coverage')
+  .option('--travelMode <mode>', `Rank by travel time from the location (${TRAVEL_MODES.join('|')})`)
+  .option('--maxTravelMinutes <minutes>', 'Drop turfs more than this many minutes away (implies driving)', parseFloat)
+  .option('--departureTime <time>', 'Leave at this future ISO 8601 time or "now" for traffic-aware driving times')
+  .option('--tileRadiusKm <km>', 'Preferred tile radius for --tiled searches', parseFloat)
+  .option('--minConfidence <score>', 'Minimum relevance confidence (0-1) to keep a place', parseFloat, DEFAULT_CONFIG.minConfidence)
+  .option('--explain', 'Show why each discovered place was kept or rejected')
+  .option('--dry-run', 'Estimate Google API calls and cost without calling Google')
+  .option('--budget <usd>', 'Stop extra keyword queries once the estimated cost reaches this many USD', parseFloat)
+  .option('--record <file>', 'Record every Google API request and response to a cassette file')
+  .option('--replay <file>', 'Serve the search from a recorded cassette instead of calling Google')
+  .option('--cacheStore <type>', `Where API responses are cached (${CACHE_STORE_TYPES.join('|')})`, process.env.CACHE_STORE || 'file')
+  .option('-q, --quiet', 'Minimal console output')
+  .option('--retries <count>', 'Retries per Google API call', parseInt, DEFAULT_CONFIG.retry.maxRetries)
+  .option('--timeoutMs <ms>', 'Timeout per Google API call in milliseconds', parseInt, DEFAULT_CONFIG.retry.timeoutMs)
+  .action(main);
+
+program
+  .command('meetup')
+  .description('Find turfs that suit several players, ranked by everyone\'s distance')
+  .argument('<origins...>', 'Player locations: addresses, "lat,lng" or "Name=address"')
+  .option('--rankBy <ranking>', `Rank by the farthest player's distance or the total (${MEETUP_RANKINGS.join('|')})`, 'max')
+  .option('--travelTime', 'Rank by driving time (Distance Matrix) instead of straight-line distance')
+  .option('-r, --radiusKm <km>', 'Radius around the players\' midpoint (default: the city\'s, else 5)', parseFloat)
+  .option('-s, --sport <sport>', `Sport profile (${listSportProfiles().map((p) => p.name).join('|')})`, DEFAULT_SPORT)
+  .option('-k, --keyword <keyword>', 'Additional keyword (e.g., "football turf", "box cricket")')
+  .option('-m, --maxResults <count>', 'Maximum discovery results', parseInt, DEFAULT_CONFIG.maxResults)
+  .option('-d, --detailsLimit <count>', 'Maximum places to rank and fetch details for', parseInt, DEFAULT_CONFIG.detailsLimit)
+  .option('--detailLevel <level>', `Place Details fields to request (${DETAIL_LEVELS.join('|')})`, DEFAULT_CONFIG.detailLevel)
+  .option('--budget <usd>', 'Stop extra keyword queries once the estimated cost reaches this many USD', parseFloat)
+  .option('-o, --output <file>', 'Output JSON file path', 'meetup.json')
+  .option('--no-output', 'Disable JSON file output')
+  .option('--cacheStore <type>', `Where API responses are cached (${CACHE_STORE_TYPES.join('|')})`, process.env.CACHE_STORE || 'file')
+  .option('-q, --quiet', 'Minimal console output')
+  .action(meetupCommand);
+
+program
+  .command('cache')
+  .description('Inspect or clean the file cache of API responses')
+  .argument('<action>', 'stats | clear | prune')
+  .option('--cacheDir <dir>', 'Cache directory (default: CACHE_DIR or the OS temp dir)')
+  .action(cacheCommand);
+
+// ============================================================================
+// Main Logic
+// ============================================================================
+
+async function main(options: Record<string, unknown>): Promise<void> {
+  const startTime = Date.now();
+
+  try {
+    if (options.record && options.replay) {
+      throw new ValidationError('--record and --replay cannot be used together');
+    }
+
+    // Validate API key (a dry run or replay never calls Google)
+    const apiKey = process.env.GOOGLE_MAPS_API_KEY || (options.replay ? 'replay' : undefined);
+    if (!apiKey && !options.dryRun) {
+      throw new ConfigurationError(
+        'GOOGLE_MAPS_API_KEY environment variable is required.\n' +
+        'Set it in .env file or export it in your shell.'
+      );
+    }
+
+    // Load custom sport profiles before validating --sport
+    const profilesFile = (options.profiles as string | undefined) || process.env.TURF_PROFILES_FILE;
+    if (profilesFile) {
+      loadSportProfilesFile(path.resolve(profilesFile));
+    }
+
+    // Parse CLI arguments
+    const args = parseCliArgs(options);
+    const quiet = !!options.quiet;
+
+    if (!quiet) {
+      console.log('\n🏟️  Bangalore Turf Finder\n');
+      console.log('=' .repeat(50));
+    }
+
+    if (options.replay) {
+      const cassette = startReplay(options.replay as string);
+      if (!quiet) console.log(`📼 Replaying ${cassette.size} recorded response(s) from ${cassette.filePath}`);
+    } else if (options.record) {
+      const cassette = startRecording(options.record as string);
+      if (!quiet) console.log(`📼 Recording Google API traffic to ${cassette.filePath}`);
+    }
+
+    // A cassette must see every request, so a recording or replay starts from empty
+    // in-memory caches and never reuses a cached result
+    const usesCassette = !!(options.record || options.replay);
+    const cacheStoreType = parseCacheStoreType(options.cacheStore);
+    setCacheStore(createCacheStore(usesCassette ? 'memory' : cacheStoreType));
+
+    // A one-shot run can't wait for a background refresh, so stale results are never served
+    const finder = new TurfFinder({
+      apiKey,
+      retry: parseRetryPolicy(options),
+      staleWhileRevalidateMs: 0,
+      ...(usesCassette && { resultCacheTtlMs: 0 }),
+    });
+
+    if (args.dryRun) {
+      printPlan(await finder.plan(toSearchRequest(args)));
+      return;
+    }
+
+    // Search for turfs
+    if (!quiet) console.log('🔎 Searching for turfs...\n');
+    const output = await finder.search(toSearchRequest(args));
+    const { query, results } = output;
+
+    if (!quiet) {
+      if (query.formattedAddress) {
+        console.log(`\n🔍 Geocoded "${query.location}"`);
+        console.log(`   ➜ ${query.formattedAddress}`);
+      }
+      console.log(`\n📍 Search Location: ${query.lat.toFixed(6)}, ${query.lng.toFixed(6)}`);
+      if (query.area) {
+        console.log(`🗺️  Area: ${query.area.name || `custom ${query.area.type}`} (distances from the point above)`);
+      } else {
+        console.log(`📏 Radius: ${query.radiusKm} km`);
+      }
+      if (query.city) {
+        console.log(`🏙️  City: ${query.city.name}`);
+      }
+      console.log(`🏅 Sport: ${query.sport}`);
+      if (query.keyword) {
+        console.log(`🔍 Keyword: ${query.keyword}`);
+      }
+      console.log('');
+    }
+
+    printWarnings(output.warnings, quiet);
+
+    if (results.length === 0) {
+      console.log('❌ No turfs found in the specified area.');
+      console.log('   Try increasing the radius or changing the keyword.\n');
+      process.exit(0);
+    }
+
+    if (!quiet) {
+      const tilesNote = output.tilesUsed > 1 ? ` (${output.tilesUsed} tiles)` : '';
+      const scope = query.area ? `inside ${query.area.name || 'the area'}` : `within ${query.radiusKm} km`;
+      const travelNote = query.travel?.maxMinutes ? ` and ${query.travel.maxMinutes} min by ${query.travel.mode}` : '';
+      console.log(`✅ Found ${output.totalFound} turfs ${scope}${travelNote}${tilesNote}`);
+      console.log(`📋 Fetched details for top ${output.detailsFetched} closest turfs\n`);
+    }
+
+    // Print results to console
+    printResults(results, quiet);
+    printDiagnostics(output.diagnostics, quiet);
+    printUsage(output.usage, quiet);
+    if (output.explain) {
+      printExplanation(output.explain);
+    }
+
+    // Save to JSON file
+    if (options.output !== false && options.output) {
+      const outputPath = path.resolve(options.output as string);
+      fs.writeFileSync(outputPath, JSON.stringify(output, null, 2), 'utf-8');
+      if (!quiet) {
+        console.log(`\n💾 Results saved to: ${outputPath}`);
+      }
+    }
+
+    const elapsed = ((Date.now() - startTime) / 1000).toFixed(2);
+    if (!quiet) {
+      console.log(`\n⏱️  Completed in ${elapsed}s\n`);
+    }
+
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+// ============================================================================
+// Meetup Command
+// ============================================================================
+
+async function meetupCommand(origins: string[], options: Record<string, unknown>): Promise<void> {
+  try {
+    const apiKey = process.env.GOOGLE_MAPS_API_KEY;
+    if (!apiKey) {
+      throw new ConfigurationError(
+        'GOOGLE_MAPS_API_KEY environment variable is required.\n' +
+        'Set it in .env file or export it in your shell.'
+      );
+    }
+
+    const quiet = !!options.quiet;
+    setCacheStore(createCacheStore(parseCacheStoreType(options.cacheStore)));
+
+    const finder = new TurfFinder({ apiKey });
+    if (!quiet) console.log(`\n🤝 Finding turfs for ${origins.length} players...\n`);
+    const output = await finder.meetup({
+      origins: origins.map(parseMeetupOrigin),
+      rankBy: options.rankBy as MeetupRanking,
+      travelTime: !!options.travelTime,
+      radiusKm: options.radiusKm as number | undefined,
+      sport: options.sport as string,
+      keyword: options.keyword as string | undefined,
+      maxResults: options.maxResults as number,
+      detailsLimit: options.detailsLimit as number,
+      detailLevel: options.detailLevel as DetailLevel,
+      budgetUsd: options.budget as number | undefined,
+    });
+
+    printMeetup(output, quiet);
+    printDiagnostics(output.diagnostics, quiet);
+    printUsage(output.usage, quiet);
+
+    if (options.output !== false && options.output) {
+      const outputPath = path.resolve(options.output as string);
+      fs.writeFileSync(outputPath, JSON.stringify(output, null, 2), 'utf-8');
+      if (!quiet) {
+        console.log(`\n💾 Results saved to: ${outputPath}\n`);
+      }
+    }
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+function printMeetup(output: MeetupOutput, quiet: boolean): void {
+  const { query, results } = output;
+
+  if (!quiet) {
+    query.origins.forEach((origin) => {
+      const where = origin.formattedAddress || `${origin.lat.toFixed(6)}, ${origin.lng.toFixed(6)}`;
+      console.log(`👤 ${origin.name}: ${where}`);
+    });
+    const city = query.city ? ` in ${query.city.name}` : '';
+    console.log(`\n📍 Midpoint${city}: ${query.center.lat.toFixed(6)}, ${query.center.lng.toFixed(6)}, ${query.radiusKm} km`);
+    const ranking = query.rankBy === 'max' ? 'farthest player' : 'total for all players';
+    console.log(`🏁 Ranked by ${ranking}${query.travelTime ? ' (driving time)' : ''}\n`);
+  }
+
+  if (results.length === 0) {
+    console.log(`❌ ${output.message}`);
+    return;
+  }
+
+  results.forEach((result, index) => {
+    const score = query.rankBy === 'max' ? `farthest ${result.maxDistanceKm} km` : `total ${result.totalDistanceKm} km`;
+    console.log(`${index + 1}. ${result.name} (${score})`);
+    if (quiet) {
+      return;
+    }
+    result.players.forEach((player) => {
+      const travel = player.travelSeconds !== null ? `, ${Math.round(player.travelSeconds / 60)} min drive` : '';
+      console.log(`     ${player.name}: ${formatDistance(player.distanceKm)}${travel}`);
+    });
+    console.log(`     🗺️  ${result.mapsUrl}`);
+  });
+}
+
+// ============================================================================
+// Cache Command
+// ============================================================================
+
+function cacheCommand(action: string, options: Record<string, unknown>): void {
+  try {
+    const store = createCacheStore('file', options.cacheDir as string | undefined) as FileCacheStore;
+    setCacheStore(store);
+
+    switch (action) {
+      case 'stats':
+        console.log(`\n🗄️  Cache directory: ${store.dir}\n`);
+        allCaches.forEach((cache) => {
+          const { namespace, size, bytes, ttlMs, maxEntries, maxBytes } = cache.stats();
+          const limits = [
+            maxEntries !== null ? `max ${maxEntries} entries` : null,
+            maxBytes !== null ? `max ${formatBytes(maxBytes)}` : null,
+            `TTL ${formatDuration(ttlMs)}`,
+          ].filter(Boolean);
+          console.log(
+            `   • ${namespace.padEnd(8)} ${String(size).padStart(5)} entries ${formatBytes(bytes).padStart(9)}  (${limits.join(', ')})`
+          );
+        });
+        console.log('');
+        break;
+      case 'clear':
+        allCaches.forEach((cache) => cache.clear());
+        console.log(`🧹 Cleared all cached API responses in ${store.dir}`);
+        break;
+      case 'prune': {
+        const pruned = pruneAllCaches();
+        console.log(`🧹 Removed ${pruned} expired entr${pruned === 1 ? 'y' : 'ies'} from ${store.dir}`);
+        break;
+      }
+      default:
+        throw new ValidationError(`Unknown cache action "${action}". Use stats, clear or prune.`);
+    }
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function parseCacheStoreType(value: unknown): CacheStoreType {
+  if (!CACHE_STORE_TYPES.includes(value as CacheStoreType)) {
+    throw new ValidationError(`--cacheStore must be one of: ${CACHE_STORE_TYPES.join(', ')}`);
+  }
+  return value as CacheStoreType;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes >= 24 * 60 && minutes % (24 * 60) === 0) {
+    return `${minutes / (24 * 60)} d`;
+  }
+  return minutes >= 60 && minutes % 60 === 0 ? `${minutes / 60} h` : `${minutes} min`;
+}
+
+function parseCliArgs(options: Record<string, unknown>): CliArgs {
+  const location = options.location as string | undefined;
+  const lat = options.lat as number | undefined;
+  const lng = options.lng as number | undefined;
+  const radiusKm = options.radiusKm as number | undefined;
+  const sport = options.sport as string;
+  const keyword = options.keyword as string | undefined;
+  const maxResults = options.maxResults as number;
+  const detailsLimit = options.detailsLimit as number;
+  const detailLevel = options.detailLevel as DetailLevel;
+  const maxPages = options.maxPages as number;
+  const tiled = !!options.tiled;
+  const tileRadiusKm = options.tileRadiusKm as number | undefined;
+  const minConfidence = options.minConfidence as number;
+  const explain = !!options.explain;
+  const budgetUsd = options.budget as number | undefined;
+  const dryRun = !!options.dryRun;
+  const areaFile = options.area as string | undefined;
+  const locality = options.locality as string | undefined;
+  const city = options.city as string | undefined;
+  const travelMode = options.travelMode as TravelMode | undefined;
+  const maxTravelMinutes = options.maxTravelMinutes as number | undefined;
+  const departureTime = options.departureTime as string | undefined;
+
+  // Validate input
+  if (!location && (lat === undefined || lng === undefined) && !areaFile && !locality) {
+    throw new ValidationError(
+      'Either --location, both --lat and --lng, or --area/--locality is required.\n\n' +
+      'Examples:\n' +
+      '  --location "HSR Layout, Bengaluru"\n' +
+      '  --lat 12.9121 --lng 77.6446\n' +
+      '  --locality "HSR Layout"'
+    );
+  }
+
+  if (areaFile && locality) {
+    throw new ValidationError('--area and --locality cannot be used together');
+  }
+
+  if (lat !== undefined && lng === undefined) {
+    throw new ValidationError('--lng is required when --lat is specified');
+  }
+
+  if (lng !== undefined && lat === undefined) {
+    throw new ValidationError('--lat is required when --lng is specified');
+  }
+
+  // Types and ranges go through the same schema as the HTTP API, reported by flag
+  validateSearchRequest(
+    {
+      location,
+      lat,
+      lng,
+      radiusKm,
+      sport,
+      keyword,
+      maxResults,
+      detailsLimit,
+      detailLevel,
+      maxPages,
+      tiled,
+      tileRadiusKm,
+      minConfidence,
+      explain,
+      budgetUsd,
+      dryRun,
+      locality,
+      city,
+      travelMode,
+      maxTravelMinutes,
+      departureTime,
+    },
+    (field) => `--${field === 'budgetUsd' ? 'budget' : field}`
+  );
+
+  return {
+    location,
+    lat,
+    lng,
+    radiusKm,
+    sport,
+    keyword,
+    maxResults,
+    detailsLimit,
+    detailLevel,
+    maxPages,
+    tiled,
+    tileRadiusKm,
+    minConfidence,
+    explain,
+    budgetUsd,
+    dryRun,
+    areaFile,
+    locality,
+    city,
+    travelMode,
+    maxTravelMinutes,
+    departureTime,
+  };
+}
+
+function parseRetryPolicy(options: Record<string, unknown>): RetryPolicy {
+  const maxRetries = options.retries as number;
+  const timeoutMs = options.timeoutMs as number;
+
+  if (!Number.isInteger(maxRetries) || maxRetries < 0) {
+    throw new ValidationError('--retries must be a non-negative integer');
+  }
+
+  if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) {
+    throw new ValidationError('--timeoutMs must be a positive number');
+  }
+
+  return { ...DEFAULT_CONFIG.retry, maxRetries, timeoutMs };
+}
+
+function toSearchRequest(args: CliArgs): SearchRequest {
+  return {
+    location: args.location,
+    lat: args.lat,
+    lng: args.lng,
+    radiusKm: args.radiusKm,
+    sport: args.sport,
+    keyword: args.keyword,
+    maxResults: args.maxResults,
+    detailsLimit: args.detailsLimit,
+    detailLevel: args.detailLevel,
+    maxPages: args.maxPages,
+    tiled: args.tiled,
+    tileRadiusKm: args.tileRadiusKm,
+    minConfidence: args.minConfidence,
+    explain: args.explain,
+    budgetUsd: args.budgetUsd,
+    dryRun: args.dryRun,
+    area: args.areaFile ? readAreaFile(args.areaFile) : undefined,
+    locality: args.locality,
+    city: args.city,
+    travelMode: args.travelMode,
+    maxTravelMinutes: args.maxTravelMinutes,
+    departureTime: args.departureTime,
+  };
+}
+
+/**
+ * Read a GeoJSON area file (validated by TurfFinder)
+ */
+function readAreaFile(file: string): SearchRequest['area'] {
+  try {
+    return JSON.parse(fs.readFileSync(path.resolve(file), 'utf-8')) as SearchRequest['area'];
+  } catch (error) {
+    throw new ValidationError(`Could not read --area file ${file}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+function printResults(results: TurfResult[], quiet: boolean): void {
+  if (quiet) {
+    // Minimal output for quiet mode
+    results.forEach((r, i) => {
+      const phone = r.phone || (r.unrequestedFields.includes('phone') ? 'Phone not requested' : 'No phone');
+      const travel = r.travel ? `, ${r.travel.durationText}` : '';
+      console.log(`${i + 1}. ${r.name} (${r.distanceKm} km${travel}) - ${phone}`);
+    });
+    return;
+  }
+
+  console.log('\n' + '='.repeat(60));
+  console.log('                     TURF RESULTS');
+  console.log('='.repeat(60) + '\n');
+
+  results.forEach((result, index) => {
+    console.log(`┌${'─'.repeat(58)}┐`);
+    console.log(`│ ${(index + 1).toString().padStart(2)}. ${result.name.substring(0, 50).padEnd(50)} │`);
+    console.log(`├${'─'.repeat(58)}┤`);
+    
+    console.log(`│ 📍 Distance: ${formatDistance(result.distanceKm).padEnd(43)} │`);
+    if (result.travel) {
+      const { mode, modeUsed } = result.travel;
+      const modeNote = modeUsed !== mode ? `, ${modeUsed} time` : '';
+      const travel = `${result.travel.durationText} by ${mode} (${result.travel.distanceText}${modeNote})`;
+      console.log(`│ 🚦 ${travel.substring(0, 54).padEnd(54)} │`);
+    }
+    console.log(`│ 📫 ${result.address.substring(0, 54).padEnd(54)} │`);
+    
+    // Phone
+    if (result.phone) {
+      console.log(`│ 📞 ${result.phone.padEnd(54)} │`);
+    } else if (result.unrequestedFields.includes('phone')) {
+      console.log(`│ 📞 ${'Phone not requested (use --detailLevel contact)'.padEnd(54)} │`);
+    } else {
+      console.log(`│ 📞 Phone not listed on Google${' '.repeat(26)} │`);
+    }
+
+    // Rating
+    if (result.rating !== null) {
+      const stars = '★'.repeat(Math.round(result.rating)) + '☆'.repeat(5 - Math.round(result.rating));
+      const ratingStr = `${stars} ${result.rating.toFixed(1)} (${result.userRatingsTotal || 0} reviews)`;
+      console.log(`│ ⭐ ${ratingStr.padEnd(54)} │`);
+    }
+
+    // Open status
+    if (result.openNow !== null) {
+      const status = result.openNow ? '🟢 Open now' : '🔴 Closed';
+      console.log(`│    ${status.padEnd(54)} │`);
+    }
+
+    // Maps link
+    console.log(`│ 🗺️  ${result.mapsUrl.substring(0, 53).padEnd(53)} │`);
+
+    // Photos
+    if (result.photos.length > 0) {
+      console.log(`│ 📷 ${result.photos.length} photo(s) available${' '.repeat(36)} │`);
+    }
+
+    // Reviews
+    if (result.topReviews.length > 0) {
+      console.log(`├${'─'.repeat(58)}┤`);
+      console.log(`│ 💬 Top Reviews:${' '.repeat(42)} │`);
+      result.topReviews.forEach((review) => {
+        const reviewStars = review.rating ? '★'.repeat(review.rating) : '';
+        const authorLine = `    ${review.author} ${reviewStars} (${review.relativeTime})`;
+        console.log(`│ ${authorLine.substring(0, 56).padEnd(56)} │`);
+        
+        // Print review text (wrap at ~54 chars)
+        const words = review.text.split(' ');
+        let line = '    "';
+        for (const word of words) {
+          if ((line + word).length > 54) {
+            console.log(`│ ${line.padEnd(56)} │`);
+            line = '     ' + word + ' ';
+          } else {
+            line += word + ' ';
+          }
+        }
+        if (line.trim().length > 4) {
+          line = line.trimEnd() + '"';
+          console.log(`│ ${line.padEnd(56)} │`);
+        }
+      });
+    }
+
+    console.log(`└${'─'.repeat(58)}┘\n`);
+  });
+
+  // Summary
+  const withPhone = results.filter((r) => r.phone).length;
+  const withRating = results.filter((r) => r.rating !== null).length;
+  const avgRating = results.filter((r) => r.rating !== null).length > 0
+    ? (results.filter((r) => r.rating !== null).reduce((sum, r) => sum + (r.rating || 0), 0) / withRating).toFixed(2)
+    : 'N/A';
+
+  console.log('📊 Summary:');
+  console.log(`   • ${results.length} turfs found`);
+  if (!results.some((r) => r.unrequestedFields.includes('phone'))) {
+    console.log(`   • ${withPhone} with phone numbers`);
+  }
+  console.log(`   • Average rating: ${avgRating}`);
+  // Results ranked by travel time aren't in distance order
+  const distances = results.map((r) => r.distanceKm);
+  console.log(`   • Closest: ${distances.length > 0 ? Math.min(...distances) : 0} km`);
+  console.log(`   • Farthest: ${distances.length > 0 ? Math.max(...distances) : 0} km`);
+}
+
+/**
+ * Partial failures go to stderr even with --quiet; cache notes only without it
+ */
+function printWarnings(warnings: SearchWarning[], quiet: boolean): void {
+  const shown = quiet ? warnings.filter((warning) => warning.code !== 'cached') : warnings;
+  if (shown.length === 0) {
+    return;
+  }
+
+  console.warn(`\n⚠️  ${shown.length} warning(s):`);
+  shown.forEach((warning) => {
+    console.warn(`   • ${warning.message}`);
+  });
+  console.warn('');
+}
+
+function printDiagnostics(diagnostics: SearchDiagnostics, quiet: boolean): void {
+  const { retries, failures } = diagnostics;
+  if (retries.length === 0 && failures.length === 0) {
+    return;
+  }
+
+  if (!quiet && retries.length > 0) {
+    console.log(`\n🔁 ${retries.length} Google API request(s) were retried`);
+  }
+
+  if (failures.length > 0) {
+    console.warn(`\n⚠️  ${failures.length} Google API request(s) failed after retrying:`);
+    failures.forEach((failure) => {
+      const status = failure.status ? ` ${failure.status}` : '';
+      console.warn(`   • ${failure.api}${status}: ${failure.message} (${failure.attempts} attempt(s))`);
+    });
+  }
+}
+
+function printUsage(usage: UsageReport, quiet: boolean): void {
+  if (usage.budgetExhausted && usage.skippedQueries > 0) {
+    console.warn(`\n💸 Budget of $${usage.budgetUsd} reached; skipped ${usage.skippedQueries} keyword query(s)`);
+  }
+
+  if (quiet) {
+    return;
+  }
+
+  const cacheHits = Object.values(usage.cacheHits).reduce((sum, hits) => sum + hits, 0);
+  console.log(
+    `\n💰 ${usage.totalCalls} billable Google API call(s), ~$${usage.estimatedCostUsd.toFixed(4)} estimated` +
+    (cacheHits > 0 ? ` (${cacheHits} served from cache)` : '')
+  );
+}
+
+function printPlan(plan: SearchPlan): void {
+  const { query, calls, estimate } = plan;
+  const where = plan.geocodeRequired
+    ? `"${query.location}" (not geocoded yet)`
+    : `${query.lat.toFixed(6)}, ${query.lng.toFixed(6)}`;
+
+  console.log('\n🧮 Dry run - no Google API calls were made\n');
+  const scope = query.area ? `inside ${query.area.name || `a custom ${query.area.type}`}` : `${query.radiusKm} km`;
+  const city = query.city ? ` in ${query.city.name}` : '';
+  console.log(`📍 ${where}${city}, ${scope}, sport ${query.sport}`);
+  console.log(`🗂️  ${plan.tiles} tile(s) × ${plan.keywords.length} keyword(s), details at "${query.detailLevel}" level\n`);
+
+  console.log('📞 Google API calls (at most):');
+  (Object.keys(calls) as Array<keyof typeof calls>).forEach((api) => {
+    const cached = estimate.cacheHits[api] ? ` (+${estimate.cacheHits[api]} from cache)` : '';
+    console.log(`   • ${api}: ${calls[api]}${cached}`);
+  });
+
+  if (estimate.skippedQueries > 0) {
+    console.log(`   • ${estimate.skippedQueries} keyword query(s) skipped by the $${estimate.budgetUsd} budget`);
+  }
+
+  console.log(`\n💰 Estimated cost: up to $${estimate.estimatedCostUsd.toFixed(4)}`);
+  plan.notes.forEach((note) => console.log(`   • ${note}`));
+  console.log('');
+}
+
+function printExplanation(explanation: SearchExplanation): void {
+  console.log(`\n🧐 Relevance filter (threshold ${explanation.threshold}):`);
+  console.log(`   • ${explanation.kept.length} kept, ${explanation.rejected.length} rejected`);
+
+  explanation.rejected.forEach((c) => {
+    console.log(`   ✗ ${c.name} (${c.confidence.toFixed(2)}): ${c.reasons.join('; ')}`);
+  });
+}
+
+function handleError(error: unknown): never {
+  console.error('\n❌ Error:');
+
+  if (error instanceof TurfFinderError) {
+    console.error(`   ${error.message}`);
+    if (error.details) {
+      console.error('\n   Details:', JSON.stringify(error.details, null, 2));
+    }
+  } else if (error instanceof Error) {
+    console.error(`   ${error.message}`);
+    if (process.env.DEBUG) {
+      console.error('\n   Stack:', error.stack);
+    }
+  } else {
+    console.error('   An unexpected error occurred');
+  }
+
+  // Setup tips don't help with bad arguments or a place that doesn't exist
+  const code = getErrorCode(error);
+  if (error instanceof GoogleApiError && error.hint) {
+    console.error(`\n💡 ${error.hint}`);
+  } else if (code !== 'VALIDATION_ERROR' && code !== 'NOT_FOUND') {
+    console.error('\n💡 Tips:');
+    console.error('   • Make sure GOOGLE_MAPS_API_KEY is set correctly');
+    console.error('   • Ensure the required APIs are enabled in Google Cloud Console:');
+    console.error('     - Geocoding API');
+    console.error('     - Places API (New)');
+    console.error('     - Distance Matrix API (--travelMode, meetup --travelTime)');
+    console.error('   • Check your API quota and billing status');
+  }
+  console.error('');
+
+  // Exit codes follow the error code (see ERROR_CODES in errors.ts)
+  process.exit(getExitCode(error));
+}
+
+// Run the CLI
+program.parse();
@@ -0,0 +1,32 @@
+/**
+ * Single-flight request coalescing
+ * Concurrent calls with the same key share one in-flight promise instead of
+ * each doing the work (and paying for the Google calls) again
+ */
+
+export class SingleFlight<T> {
+  private readonly inflight = new Map<string, Promise<T>>();
+
+  /**
+   * Run `fn` unless a call with the same key is already in flight
+   * @returns The shared promise, and whether it was started by an earlier caller
+   */
+  run(key: string, fn: () => Promise<T>): { promise: Promise<T>; coalesced: boolean } {
+    const existing = this.inflight.get(key);
+    if (existing) {
+      return { promise: existing, coalesced: true };
+    }
+
+    const promise = fn().finally(() => this.inflight.delete(key));
+    this.inflight.set(key, promise);
+    return { promise, coalesced: false };
+  }
+
+  isInFlight(key: string): boolean {
+    return this.inflight.has(key);
+  }
+
+  get size(): number {
+    return this.inflight.size;
+  }
+}
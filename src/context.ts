@@ -0,0 +1,53 @@
+/**
+ * Per-search context threaded through the Google API client
+ * Collects what happened during one search so it can be reported in the output
+ */
+
+import { RetryPolicy, RetryRecord, FailureRecord, SearchDiagnostics, SearchWarning, DEFAULT_RETRY_POLICY } from './types';
+import { UsageTracker } from './usage';
+
+export interface SearchContextOptions {
+  retryPolicy?: RetryPolicy;
+  /** Estimated cost cap in USD; null for no cap */
+  budgetUsd?: number | null;
+}
+
+export class SearchContext {
+  readonly retryPolicy: RetryPolicy;
+  readonly usage: UsageTracker;
+  readonly retries: RetryRecord[] = [];
+  readonly failures: FailureRecord[] = [];
+  readonly warnings: SearchWarning[] = [];
+
+  constructor(options: SearchContextOptions = {}) {
+    this.retryPolicy = options.retryPolicy ?? DEFAULT_RETRY_POLICY;
+    this.usage = new UsageTracker(options.budgetUsd ?? null);
+  }
+
+  recordRetry(record: RetryRecord): void {
+    this.retries.push(record);
+  }
+
+  recordFailure(record: FailureRecord): void {
+    this.failures.push(record);
+  }
+
+  /**
+   * Add a warning unless an identical one is already there (tiles repeat the same queries)
+   */
+  warn(warning: SearchWarning): void {
+    if (!this.warnings.some((w) => w.code === warning.code && w.message === warning.message)) {
+      this.warnings.push(warning);
+    }
+  }
+
+  /**
+   * Snapshot of the collected records for SearchOutput
+   */
+  toDiagnostics(): SearchDiagnostics {
+    return {
+      retries: [...this.retries],
+      failures: [...this.failures],
+    };
+  }
+}
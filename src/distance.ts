@@ -2,7 +2,8 @@
  * Distance calculation utilities using Haversine formula
  */
 
-import { LatLng } from './types';
+import { AreaGeometry, LatLng } from './types';
+import { getCity, isInCityBounds } from './cities';
 
 /** Earth's radius in kilometers */
 const EARTH_RADIUS_KM = 6371;
@@ -77,27 +78,80 @@ export function filterWithinRadius<T extends { distanceKm: number }>(
 }
 
 /**
- * Check if coordinates are approximately in Bangalore area
- * Bangalore bounding box (approximate):
- * - North: 13.2
- * - South: 12.7
- * - East: 77.9
- * - West: 77.3
+ * Check if a point is inside a GeoJSON ring of [lng, lat] positions (ray casting)
+ * Rings are small enough that treating lat/lng as planar is accurate.
  */
-export function isApproximatelyBangalore(lat: number, lng: number): boolean {
-  const BANGALORE_BOUNDS = {
-    north: 13.2,
-    south: 12.7,
-    east: 77.9,
-    west: 77.3,
+function isPointInRing(point: LatLng, ring: number[][]): boolean {
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [lngI, latI] = ring[i];
+    const [lngJ, latJ] = ring[j];
+    const crosses =
+      latI > point.lat !== latJ > point.lat &&
+      point.lng < ((lngJ - lngI) * (point.lat - latI)) / (latJ - latI) + lngI;
+    if (crosses) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+/**
+ * Check if a point is inside a polygon's outer ring and outside its holes
+ */
+export function isPointInPolygon(point: LatLng, rings: number[][][]): boolean {
+  const [outer, ...holes] = rings;
+  return !!outer && isPointInRing(point, outer) && !holes.some((hole) => isPointInRing(point, hole));
+}
+
+/**
+ * Check if a point is inside a GeoJSON Polygon or any part of a MultiPolygon
+ */
+export function isPointInArea(point: LatLng, area: AreaGeometry): boolean {
+  return area.type === 'Polygon'
+    ? isPointInPolygon(point, area.coordinates)
+    : area.coordinates.some((polygon) => isPointInPolygon(point, polygon));
+}
+
+/**
+ * Filter items inside a polygon area (the counterpart of filterWithinRadius)
+ * Items without a location are dropped.
+ */
+export function filterWithinArea<T>(
+  items: T[],
+  area: AreaGeometry,
+  getLocation: (item: T) => LatLng | null
+): T[] {
+  return items.filter((item) => {
+    const location = getLocation(item);
+    return location !== null && isPointInArea(location, area);
+  });
+}
+
+/**
+ * Circle around the area's bounding-box centre that contains every vertex (and so the whole area)
+ */
+export function getAreaBoundingCircle(area: AreaGeometry): { center: LatLng; radiusKm: number } {
+  const positions = area.type === 'Polygon' ? area.coordinates.flat() : area.coordinates.flat(2);
+  const lngs = positions.map(([lng]) => lng);
+  const lats = positions.map(([, lat]) => lat);
+  const center = {
+    lat: (Math.min(...lats) + Math.max(...lats)) / 2,
+    lng: (Math.min(...lngs) + Math.max(...lngs)) / 2,
   };
+  const radiusKm = Math.max(...positions.map(([lng, lat]) => haversineDistance(center, { lat, lng })));
+
+  return { center, radiusKm };
+}
 
-  return (
-    lat >= BANGALORE_BOUNDS.south &&
-    lat <= BANGALORE_BOUNDS.north &&
-    lng >= BANGALORE_BOUNDS.west &&
-    lng <= BANGALORE_BOUNDS.east
-  );
+/**
+ * Check if coordinates are approximately in Bangalore area
+ * @deprecated Use findCityForPoint from ./cities, which knows every registered city
+ */
+export function isApproximatelyBangalore(lat: number, lng: number): boolean {
+  return isInCityBounds(getCity('bangalore').bounds, lat, lng);
 }
 
 /**
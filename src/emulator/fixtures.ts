@@ -0,0 +1,50 @@
+/**
+ * Emulator fixtures
+ * Places and geocoding answers served by the local Google Maps Platform emulator
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { PlaceDetailsResponse } from '../types';
+
+/** Bundled Bangalore fixtures (same relative path from src/ and dist/) */
+export const DEFAULT_FIXTURES_FILE = path.resolve(__dirname, '../../fixtures/emulator/bangalore.json');
+
+export interface GeocodeFixture {
+  /** Matched case-insensitively against the requested address */
+  query: string;
+  lat: number;
+  lng: number;
+  formattedAddress: string;
+}
+
+/** A place in Places API (New) shape, plus emulator-only search terms */
+export interface PlaceFixture extends PlaceDetailsResponse {
+  types?: string[];
+  /** Extra words Text Search matches on besides the name (never returned) */
+  tags?: string[];
+}
+
+export interface EmulatorFixtures {
+  geocodes: GeocodeFixture[];
+  places: PlaceFixture[];
+}
+
+/**
+ * Read and check a fixtures file
+ */
+export function loadFixtures(filePath: string = DEFAULT_FIXTURES_FILE): EmulatorFixtures {
+  const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Partial<EmulatorFixtures>;
+
+  if (!Array.isArray(parsed.places) || !Array.isArray(parsed.geocodes)) {
+    throw new Error(`${filePath} must contain "places" and "geocodes" arrays`);
+  }
+
+  for (const place of parsed.places) {
+    if (!place.id || place.location?.latitude === undefined || place.location?.longitude === undefined) {
+      throw new Error(`Every place in ${filePath} needs an "id" and a "location"`);
+    }
+  }
+
+  return { geocodes: parsed.geocodes, places: parsed.places };
+}
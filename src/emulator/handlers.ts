@@ -0,0 +1,511 @@
+/**
+ * Emulated Google Maps Platform endpoints
+ * Each handler takes the parsed request and returns the status and body Google would send
+ */
+
+import { haversineDistance } from '../distance';
+import { LatLng } from '../types';
+import { EmulatorFixtures, PlaceFixture } from './fixtures';
+
+export interface EmulatorResponse {
+  status: number;
+  body: unknown;
+}
+
+/** Places API (New) page size cap for searches */
+const MAX_PAGE_SIZE = 20;
+
+/** Text Search returns no page token past this many places, like Google */
+const MAX_TEXT_SEARCH_RESULTS = 60;
+const MAX_RADIUS_METERS = 50000;
+const MAX_PHOTO_PX = 4800;
+
+/** Query words too common to decide a Text Search match */
+const TEXT_QUERY_STOP_WORDS = ['a', 'an', 'the', 'of', 'in', 'near', 'me', 'side', 'five', 'seven'];
+
+/** Travel speeds for the Distance Matrix estimate (km/h) and a road-vs-straight-line factor */
+const TRAVEL_SPEEDS_KMH: Record<string, number> = { driving: 22, bicycling: 14, walking: 5, transit: 16 };
+/** Driving with a departure time also reports duration_in_traffic, this much slower */
+const TRAFFIC_FACTOR = 1.5;
+const ROAD_FACTOR = 1.3;
+/** Farther than this there is no route (an element of ZERO_RESULTS) */
+const MAX_ROUTE_KM = 3000;
+
+/** 1×1 grey PNG served for every photo */
+export const PLACEHOLDER_PHOTO = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAAAAAA6fptVAAAACklEQVR4nGOoBwAAegB5ZkJ7wQAAAABJRU5ErkJggg==',
+  'base64'
+);
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * API keys that fail the way Google does for a misconfigured project
+ * (e.g. GOOGLE_MAPS_API_KEY=api-disabled); any other key works
+ */
+export const FAULT_KEYS = ['api-disabled', 'key-restricted', 'key-invalid', 'quota-exceeded'] as const;
+type FaultKey = (typeof FAULT_KEYS)[number];
+
+const PLACES_SERVICE = 'places.googleapis.com';
+const ACTIVATION_URL = `https://console.developers.google.com/apis/api/${PLACES_SERVICE}/overview?project=0`;
+
+/**
+ * Error body in the Places API (New) format, with an ErrorInfo detail when there is a reason
+ */
+function placesError(status: number, code: string, message: string, reason?: string, metadata: Record<string, string> = {}): EmulatorResponse {
+  const details = reason
+    ? [{ '@type': 'type.googleapis.com/google.rpc.ErrorInfo', reason, domain: 'googleapis.com', metadata: { service: PLACES_SERVICE, ...metadata } }]
+    : undefined;
+  return { status, body: { error: { code: status, message, status: code, details } } };
+}
+
+const PLACES_FAULTS: Record<FaultKey, EmulatorResponse> = {
+  'api-disabled': placesError(
+    403,
+    'PERMISSION_DENIED',
+    `Places API (New) has not been used in project 0 before or it is disabled. Enable it by visiting ${ACTIVATION_URL} then retry.`,
+    'SERVICE_DISABLED',
+    { activationUrl: ACTIVATION_URL }
+  ),
+  'key-restricted': placesError(403, 'PERMISSION_DENIED', `Requests to this API ${PLACES_SERVICE} are blocked.`, 'API_KEY_SERVICE_BLOCKED'),
+  'key-invalid': placesError(400, 'INVALID_ARGUMENT', 'API key not valid. Please pass a valid API key.', 'API_KEY_INVALID'),
+  'quota-exceeded': placesError(
+    429,
+    'RESOURCE_EXHAUSTED',
+    `Quota exceeded for quota metric 'SearchText requests' and limit 'SearchText requests per minute' of service '${PLACES_SERVICE}'.`,
+    'RATE_LIMIT_EXCEEDED',
+    { quota_limit: 'SearchTextRequestsPerMinutePerProject' }
+  ),
+};
+
+/** `status` and `error_message` of the legacy Maps APIs for a missing key and each fault key */
+const LEGACY_FAULTS: Record<FaultKey | 'missing', { status: string; error_message: string }> = {
+  missing: { status: 'REQUEST_DENIED', error_message: 'You must use an API key to authenticate each request to Google Maps Platform APIs.' },
+  'api-disabled': { status: 'REQUEST_DENIED', error_message: 'This API project is not authorized to use this API.' },
+  'key-restricted': { status: 'REQUEST_DENIED', error_message: 'This API key is not authorized to use this service or API.' },
+  'key-invalid': { status: 'REQUEST_DENIED', error_message: 'The provided API key is invalid.' },
+  'quota-exceeded': { status: 'OVER_QUERY_LIMIT', error_message: 'You have exceeded your daily request quota for this API.' },
+};
+
+function isFaultKey(key: unknown): key is FaultKey {
+  return FAULT_KEYS.includes(key as FaultKey);
+}
+
+/**
+ * Check the key a Places API (New) request sent in X-Goog-Api-Key
+ */
+export function checkPlacesApiKey(apiKey: string | undefined): EmulatorResponse | null {
+  if (!apiKey) {
+    return placesError(403, 'PERMISSION_DENIED', 'The request is missing a valid API key.');
+  }
+  return isFaultKey(apiKey) ? PLACES_FAULTS[apiKey] : null;
+}
+
+/**
+ * Check the key of a legacy Maps API request; `empty` is the API's empty result field
+ */
+function checkLegacyApiKey(key: unknown, empty: Record<string, unknown[]>): EmulatorResponse | null {
+  if (!key) {
+    return { status: 200, body: { ...LEGACY_FAULTS.missing, ...empty } };
+  }
+  return isFaultKey(key) ? { status: 200, body: { ...LEGACY_FAULTS[key], ...empty } } : null;
+}
+
+// ============================================================================
+// Field Masks
+// ============================================================================
+
+/**
+ * Parse an X-Goog-FieldMask header
+ * @param prefix - Prefix of place fields in search masks ("places.")
+ */
+function parseFieldMask(header: string | undefined, prefix: string = ''): string[] | EmulatorResponse {
+  if (!header || !header.trim()) {
+    return placesError(400, 'INVALID_ARGUMENT', 'FieldMask is a required parameter. See https://cloud.google.com/apis/docs/system-parameters');
+  }
+
+  const fields = header.split(',').map((field) => field.trim()).filter(Boolean);
+  return fields.flatMap((field) => {
+    if (field === '*') return ['*'];
+    if (!prefix) return [field];
+    return field.startsWith(prefix) ? [field.slice(prefix.length)] : [];
+  });
+}
+
+/**
+ * Copy only the masked fields of a place (dotted paths select nested fields)
+ */
+function applyFieldMask(place: PlaceFixture, fields: string[]): Record<string, unknown> {
+  const { tags: _tags, ...source } = place;
+  if (fields.includes('*')) {
+    return { ...source };
+  }
+
+  const masked: Record<string, unknown> = {};
+  for (const field of fields) {
+    const [head, ...rest] = field.split('.');
+    const value = (source as Record<string, unknown>)[head];
+    if (value === undefined) continue;
+
+    if (rest.length === 0 || typeof value !== 'object' || value === null) {
+      masked[head] = value;
+    } else {
+      const nested = (masked[head] as Record<string, unknown>) || {};
+      const nestedValue = (value as Record<string, unknown>)[rest.join('.')];
+      if (nestedValue !== undefined) {
+        nested[rest.join('.')] = nestedValue;
+        masked[head] = nested;
+      }
+    }
+  }
+  return masked;
+}
+
+// ============================================================================
+// Search Helpers
+// ============================================================================
+
+interface Circle {
+  center: LatLng;
+  radiusMeters: number;
+}
+
+function parseLocationRestriction(body: Record<string, unknown>): Circle | EmulatorResponse {
+  const circle = (body.locationRestriction as { circle?: Record<string, unknown> } | undefined)?.circle;
+  const center = circle?.center as { latitude?: number; longitude?: number } | undefined;
+  const radius = Number(circle?.radius);
+
+  if (!circle || typeof center?.latitude !== 'number' || typeof center?.longitude !== 'number') {
+    return placesError(400, 'INVALID_ARGUMENT', 'locationRestriction.circle with a center is required by this emulator.');
+  }
+
+  if (!(radius > 0 && radius <= MAX_RADIUS_METERS)) {
+    return placesError(400, 'INVALID_ARGUMENT', `Invalid radius. Must be within (0.0, ${MAX_RADIUS_METERS}.0].`);
+  }
+
+  return { center: { lat: center.latitude, lng: center.longitude }, radiusMeters: radius };
+}
+
+/**
+ * Places inside the circle, nearest first
+ */
+function placesInCircle(places: PlaceFixture[], circle: Circle): PlaceFixture[] {
+  return places
+    .map((place) => ({
+      place,
+      distanceKm: haversineDistance(circle.center, {
+        lat: place.location?.latitude as number,
+        lng: place.location?.longitude as number,
+      }),
+    }))
+    .filter(({ distanceKm }) => distanceKm * 1000 <= circle.radiusMeters)
+    .sort((a, b) => a.distanceKm - b.distanceKm)
+    .map(({ place }) => place);
+}
+
+function parseCount(value: unknown, name: string, fallback: number): number | EmulatorResponse {
+  if (value === undefined) {
+    return fallback;
+  }
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1 || count > MAX_PAGE_SIZE) {
+    return placesError(400, 'INVALID_ARGUMENT', `${name} must be between 1 and ${MAX_PAGE_SIZE}.`);
+  }
+  return count;
+}
+
+function isError(value: unknown): value is EmulatorResponse {
+  return typeof value === 'object' && value !== null && 'status' in value && 'body' in value;
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+// ============================================================================
+// Places API (New)
+// ============================================================================
+
+/**
+ * POST /v1/places:searchNearby
+ */
+export function searchNearby(
+  fixtures: EmulatorFixtures,
+  body: Record<string, unknown>,
+  fieldMaskHeader: string | undefined
+): EmulatorResponse {
+  const fields = parseFieldMask(fieldMaskHeader, 'places.');
+  if (isError(fields)) return fields;
+
+  const circle = parseLocationRestriction(body);
+  if (isError(circle)) return circle;
+
+  const maxResultCount = parseCount(body.maxResultCount, 'maxResultCount', MAX_PAGE_SIZE);
+  if (isError(maxResultCount)) return maxResultCount;
+
+  const includedTypes = (body.includedTypes as string[] | undefined) || [];
+  const places = placesInCircle(fixtures.places, circle)
+    .filter((place) => includedTypes.length === 0 || (place.types || []).some((type) => includedTypes.includes(type)))
+    .slice(0, maxResultCount);
+
+  // Google omits "places" entirely when nothing matched
+  return {
+    status: 200,
+    body: places.length > 0 ? { places: places.map((place) => applyFieldMask(place, fields)) } : {},
+  };
+}
+
+interface PageTokenState {
+  /** Text query and circle the token was issued for */
+  query: string;
+  offset: number;
+}
+
+function encodePageToken(state: PageTokenState): string {
+  return Buffer.from(JSON.stringify(state), 'utf-8').toString('base64url');
+}
+
+function decodePageToken(token: string): PageTokenState | null {
+  try {
+    const state = JSON.parse(Buffer.from(token, 'base64url').toString('utf-8')) as PageTokenState;
+    return typeof state.query === 'string' && Number.isInteger(state.offset) ? state : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * POST /v1/places:searchText
+ * A place matches when any meaningful query word appears in its name or tags
+ */
+export function searchText(
+  fixtures: EmulatorFixtures,
+  body: Record<string, unknown>,
+  fieldMaskHeader: string | undefined
+): EmulatorResponse {
+  const mask = parseFieldMask(fieldMaskHeader);
+  if (isError(mask)) return mask;
+  const fields = mask.includes('*')
+    ? ['*']
+    : mask.filter((field) => field.startsWith('places.')).map((field) => field.slice('places.'.length));
+  const wantsPageToken = mask.includes('*') || mask.includes('nextPageToken');
+
+  const textQuery = typeof body.textQuery === 'string' ? body.textQuery : '';
+  if (!textQuery.trim()) {
+    return placesError(400, 'INVALID_ARGUMENT', 'textQuery is required.');
+  }
+
+  const circle = parseLocationRestriction(body);
+  if (isError(circle)) return circle;
+
+  const pageSize = parseCount(body.pageSize ?? body.maxResultCount, 'pageSize', MAX_PAGE_SIZE);
+  if (isError(pageSize)) return pageSize;
+
+  // Tokens are only valid for the query and area they were issued for
+  const tokenScope = `${textQuery}|${circle.center.lat},${circle.center.lng}|${circle.radiusMeters}`;
+  let offset = 0;
+  if (body.pageToken !== undefined) {
+    const state = decodePageToken(String(body.pageToken));
+    if (!state || state.query !== tokenScope) {
+      return placesError(400, 'INVALID_ARGUMENT', 'Invalid page token.');
+    }
+    offset = state.offset;
+  }
+
+  const queryTokens = tokenize(textQuery).filter((token) => !TEXT_QUERY_STOP_WORDS.includes(token));
+  const matches = placesInCircle(fixtures.places, circle)
+    .filter((place) => {
+      const placeTokens = tokenize([place.displayName?.text || '', ...(place.tags || [])].join(' '));
+      return queryTokens.some((token) => placeTokens.includes(token));
+    })
+    .slice(0, MAX_TEXT_SEARCH_RESULTS);
+
+  const page = matches.slice(offset, offset + pageSize);
+  const response: Record<string, unknown> = {};
+  if (page.length > 0) {
+    response.places = page.map((place) => applyFieldMask(place, fields));
+  }
+  if (wantsPageToken && offset + pageSize < matches.length) {
+    response.nextPageToken = encodePageToken({ query: tokenScope, offset: offset + pageSize });
+  }
+
+  return { status: 200, body: response };
+}
+
+/**
+ * GET /v1/places/{placeId}
+ */
+export function getPlace(
+  fixtures: EmulatorFixtures,
+  placeId: string,
+  fieldMaskHeader: string | undefined
+): EmulatorResponse {
+  const fields = parseFieldMask(fieldMaskHeader);
+  if (isError(fields)) return fields;
+
+  const place = fixtures.places.find((candidate) => candidate.id === placeId);
+  if (!place) {
+    return placesError(404, 'NOT_FOUND', `Place '${placeId}' was not found.`);
+  }
+
+  return { status: 200, body: applyFieldMask(place, fields) };
+}
+
+/**
+ * GET /v1/places/{placeId}/photos/{photoId}/media
+ * @returns The placeholder image, or an error response
+ */
+export function getPhotoMedia(
+  fixtures: EmulatorFixtures,
+  photoName: string,
+  maxWidthPx: unknown,
+  maxHeightPx: unknown
+): EmulatorResponse | Buffer {
+  if (maxWidthPx === undefined && maxHeightPx === undefined) {
+    return placesError(400, 'INVALID_ARGUMENT', 'Either maxWidthPx or maxHeightPx must be specified.');
+  }
+
+  for (const value of [maxWidthPx, maxHeightPx]) {
+    if (value !== undefined && !(Number(value) >= 1 && Number(value) <= MAX_PHOTO_PX)) {
+      return placesError(400, 'INVALID_ARGUMENT', `maxWidthPx and maxHeightPx must be between 1 and ${MAX_PHOTO_PX}.`);
+    }
+  }
+
+  const exists = fixtures.places.some((place) => (place.photos || []).some((photo) => photo.name === photoName));
+  if (!exists) {
+    return placesError(404, 'NOT_FOUND', `Photo '${photoName}' was not found.`);
+  }
+
+  return PLACEHOLDER_PHOTO;
+}
+
+// ============================================================================
+// Maps APIs (Geocoding, Distance Matrix)
+// ============================================================================
+
+function findGeocode(fixtures: EmulatorFixtures, address: string): LatLng & { formattedAddress: string } | null {
+  const normalized = address.toLowerCase();
+  const match = fixtures.geocodes.find((geocode) => normalized.includes(geocode.query.toLowerCase()));
+  return match ? { lat: match.lat, lng: match.lng, formattedAddress: match.formattedAddress } : null;
+}
+
+/**
+ * GET /maps/api/geocode/json
+ * The legacy Maps APIs answer 200 and put errors in `status`
+ */
+export function geocode(fixtures: EmulatorFixtures, query: Record<string, unknown>): EmulatorResponse {
+  const keyError = checkLegacyApiKey(query.key, { results: [] });
+  if (keyError) {
+    return keyError;
+  }
+
+  const address = typeof query.address === 'string' ? query.address : '';
+  if (!address) {
+    return { status: 200, body: { status: 'INVALID_REQUEST', results: [] } };
+  }
+
+  const match = findGeocode(fixtures, address);
+  if (!match) {
+    return { status: 200, body: { status: 'ZERO_RESULTS', results: [] } };
+  }
+
+  return {
+    status: 200,
+    body: {
+      status: 'OK',
+      results: [
+        {
+          geometry: { location: { lat: match.lat, lng: match.lng } },
+          formatted_address: match.formattedAddress,
+        },
+      ],
+    },
+  };
+}
+
+/**
+ * Resolve a Distance Matrix origin or destination: "lat,lng" or a fixture address
+ */
+function resolveWaypoint(fixtures: EmulatorFixtures, waypoint: string): LatLng | null {
+  const coords = waypoint.split(',').map((part) => Number(part.trim()));
+  if (coords.length === 2 && coords.every((value) => Number.isFinite(value))) {
+    return { lat: coords[0], lng: coords[1] };
+  }
+  return findGeocode(fixtures, waypoint);
+}
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.max(1, Math.round(seconds / 60));
+  if (minutes < 60) {
+    return `${minutes} min${minutes === 1 ? '' : 's'}`;
+  }
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return `${hours} hour${hours === 1 ? '' : 's'}${rest ? ` ${rest} mins` : ''}`;
+}
+
+/**
+ * GET /maps/api/distancematrix/json
+ * Distances are straight lines stretched by ROAD_FACTOR, at a fixed speed per mode;
+ * unknown addresses are NOT_FOUND and points beyond MAX_ROUTE_KM are ZERO_RESULTS
+ */
+export function distanceMatrix(fixtures: EmulatorFixtures, query: Record<string, unknown>): EmulatorResponse {
+  const keyError = checkLegacyApiKey(query.key, { rows: [] });
+  if (keyError) {
+    return keyError;
+  }
+
+  const origins = String(query.origins || '').split('|').filter(Boolean);
+  const destinations = String(query.destinations || '').split('|').filter(Boolean);
+  if (origins.length === 0 || destinations.length === 0) {
+    return { status: 200, body: { status: 'INVALID_REQUEST', rows: [] } };
+  }
+
+  if (origins.length * destinations.length > 100 || destinations.length > 25 || origins.length > 25) {
+    return { status: 200, body: { status: 'MAX_ELEMENTS_EXCEEDED', rows: [] } };
+  }
+
+  const mode = typeof query.mode === 'string' ? query.mode : 'driving';
+  const speedKmh = TRAVEL_SPEEDS_KMH[mode];
+  if (!speedKmh) {
+    return { status: 200, body: { status: 'INVALID_REQUEST', rows: [] } };
+  }
+
+  const rows = origins.map((origin) => {
+    const from = resolveWaypoint(fixtures, origin);
+    return {
+      elements: destinations.map((destination) => {
+        const to = resolveWaypoint(fixtures, destination);
+        if (!from || !to) {
+          return { status: 'NOT_FOUND' };
+        }
+        if (haversineDistance(from, to) > MAX_ROUTE_KM) {
+          return { status: 'ZERO_RESULTS' };
+        }
+        const meters = Math.round(haversineDistance(from, to) * ROAD_FACTOR * 1000);
+        const seconds = Math.round((meters / 1000 / speedKmh) * 3600);
+        const trafficSeconds = Math.round(seconds * TRAFFIC_FACTOR);
+        return {
+          status: 'OK',
+          distance: { value: meters, text: `${(meters / 1000).toFixed(1)} km` },
+          duration: { value: seconds, text: formatDuration(seconds) },
+          ...(mode === 'driving' && query.departure_time !== undefined && {
+            duration_in_traffic: { value: trafficSeconds, text: formatDuration(trafficSeconds) },
+          }),
+        };
+      }),
+    };
+  });
+
+  return {
+    status: 200,
+    body: {
+      status: 'OK',
+      origin_addresses: origins,
+      destination_addresses: destinations,
+      rows,
+    },
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * Local Google Maps Platform emulator
+ * Serves Geocoding, Places (New) Nearby/Text Search, Place Details, Place Photos and
+ * Distance Matrix from fixture files, so the CLI, server and tests run offline
+ *
+ * Usage:
+ *   npm run emulator
+ *   GOOGLE_API_BASE_URL=http://localhost:4010 GOOGLE_MAPS_API_KEY=emulator npm run dev -- --location "HSR Layout"
+ */
+
+import express, { Express, Request, Response } from 'express';
+import { AddressInfo } from 'net';
+
+import { EmulatorFixtures, loadFixtures } from './fixtures';
+import {
+  EmulatorResponse,
+  checkPlacesApiKey,
+  distanceMatrix,
+  geocode,
+  getPhotoMedia,
+  getPlace,
+  searchNearby,
+  searchText,
+} from './handlers';
+
+export const DEFAULT_EMULATOR_PORT = 4010;
+
+export interface EmulatorOptions {
+  /** Port to listen on; 0 picks a free one */
+  port?: number;
+  /** Fixtures file; defaults to the bundled Bangalore fixtures */
+  fixturesFile?: string;
+  fixtures?: EmulatorFixtures;
+}
+
+export interface RunningEmulator {
+  /** Base URL to pass to setApiBaseUrl() or GOOGLE_API_BASE_URL */
+  url: string;
+  close(): Promise<void>;
+}
+
+/**
+ * Build the emulator app without starting it
+ */
+export function createEmulatorApp(fixtures: EmulatorFixtures): Express {
+  const app = express();
+  app.use(express.json());
+
+  const send = (res: Response, response: EmulatorResponse) => {
+    res.status(response.status).json(response.body);
+  };
+
+  // Places API (New) paths contain ":" so they are matched with regular expressions
+  app.post(/^\/v1\/places:searchNearby$/, (req: Request, res: Response) => {
+    send(res, checkPlacesApiKey(req.get('X-Goog-Api-Key')) || searchNearby(fixtures, req.body || {}, req.get('X-Goog-FieldMask')));
+  });
+
+  app.post(/^\/v1\/places:searchText$/, (req: Request, res: Response) => {
+    send(res, checkPlacesApiKey(req.get('X-Goog-Api-Key')) || searchText(fixtures, req.body || {}, req.get('X-Goog-FieldMask')));
+  });
+
+  app.get(/^\/v1\/(places\/[\w-]+\/photos\/[\w-]+)\/media$/, (req: Request, res: Response) => {
+    const keyError = checkPlacesApiKey(req.get('X-Goog-Api-Key'));
+    if (keyError) {
+      send(res, keyError);
+      return;
+    }
+
+    const photo = getPhotoMedia(fixtures, req.params[0], req.query.maxWidthPx, req.query.maxHeightPx);
+    if (Buffer.isBuffer(photo)) {
+      res.type('image/png').send(photo);
+    } else {
+      send(res, photo);
+    }
+  });
+
+  app.get(/^\/v1\/places\/([\w-]+)$/, (req: Request, res: Response) => {
+    send(res, checkPlacesApiKey(req.get('X-Goog-Api-Key')) || getPlace(fixtures, req.params[0], req.get('X-Goog-FieldMask')));
+  });
+
+  app.get('/maps/api/geocode/json', (req: Request, res: Response) => {
+    send(res, geocode(fixtures, req.query));
+  });
+
+  app.get('/maps/api/distancematrix/json', (req: Request, res: Response) => {
+    send(res, distanceMatrix(fixtures, req.query));
+  });
+
+  app.use((req: Request, res: Response) => {
+    res.status(404).json({ error: { code: 404, message: `No emulated endpoint for ${req.method} ${req.path}`, status: 'NOT_FOUND' } });
+  });
+
+  return app;
+}
+
+/**
+ * Start the emulator and resolve once it is listening
+ */
+export function startEmulator(options: EmulatorOptions = {}): Promise<RunningEmulator> {
+  const fixtures = options.fixtures || loadFixtures(options.fixturesFile);
+  const app = createEmulatorApp(fixtures);
+
+  return new Promise((resolve, reject) => {
+    const server = app.listen(options.port ?? DEFAULT_EMULATOR_PORT, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        close: () => new Promise((done, fail) => server.close((error) => (error ? fail(error) : done()))),
+      });
+    });
+    server.on('error', reject);
+  });
+}
+
+// Run standalone: node dist/emulator/server.js
+if (require.main === module) {
+  startEmulator({
+    port: Number(process.env.EMULATOR_PORT) || DEFAULT_EMULATOR_PORT,
+    fixturesFile: process.env.EMULATOR_FIXTURES,
+  })
+    .then(({ url }) => {
+      console.log(`\n🧪 Google Maps Platform emulator running at ${url}`);
+      console.log(`   Point the app at it with GOOGLE_API_BASE_URL=${url}\n`);
+    })
+    .catch((error) => {
+      console.error('Failed to start emulator:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    });
+}
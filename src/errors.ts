@@ -0,0 +1,242 @@
+/**
+ * Error codes to HTTP responses and CLI exit codes, and Google error payloads to errors
+ * The Express server, the Vercel functions and the CLI all report failures through
+ * these tables, so a code means the same thing everywhere
+ */
+
+import {
+  ApiKeyRejectedError,
+  ApiNotEnabledError,
+  ErrorBody,
+  ErrorCode,
+  GoogleApiError,
+  InvalidArgumentError,
+  QuotaExceededError,
+  TurfFinderError,
+  ValidationError,
+} from './types';
+
+interface ErrorCodeInfo {
+  httpStatus: number;
+  exitCode: number;
+  title: string;
+}
+
+export const ERROR_CODES: Record<ErrorCode, ErrorCodeInfo> = {
+  VALIDATION_ERROR: { httpStatus: 400, exitCode: 2, title: 'Validation error' },
+  NOT_FOUND: { httpStatus: 404, exitCode: 3, title: 'Not found' },
+  RATE_LIMITED: { httpStatus: 429, exitCode: 4, title: 'Rate limited' },
+  GOOGLE_API_ERROR: { httpStatus: 502, exitCode: 5, title: 'Google API error' },
+  GEOCODING_ERROR: { httpStatus: 502, exitCode: 5, title: 'Geocoding failed' },
+  CONFIGURATION_ERROR: { httpStatus: 500, exitCode: 6, title: 'Server configuration error' },
+  INTERNAL_ERROR: { httpStatus: 500, exitCode: 1, title: 'Internal error' },
+};
+
+/**
+ * Code of any thrown value; anything that isn't a TurfFinderError is INTERNAL_ERROR
+ */
+export function getErrorCode(error: unknown): ErrorCode {
+  return error instanceof TurfFinderError && error.code in ERROR_CODES ? error.code : 'INTERNAL_ERROR';
+}
+
+export function getHttpStatus(error: unknown): number {
+  return ERROR_CODES[getErrorCode(error)].httpStatus;
+}
+
+export function getExitCode(error: unknown): number {
+  return ERROR_CODES[getErrorCode(error)].exitCode;
+}
+
+/**
+ * Status and JSON body for a failed request
+ * @param fallbackTitle - Title for unexpected errors, e.g. "Search failed"
+ */
+export function toErrorResponse(error: unknown, fallbackTitle: string): { status: number; body: ErrorBody } {
+  const code = getErrorCode(error);
+  const body: ErrorBody = {
+    error: code === 'INTERNAL_ERROR' ? fallbackTitle : ERROR_CODES[code].title,
+    code,
+    message: error instanceof Error ? error.message : 'Unknown error',
+  };
+
+  if (error instanceof ValidationError && error.issues.length > 0) {
+    body.issues = error.issues;
+  }
+
+  if (error instanceof GoogleApiError && error.hint) {
+    body.hint = error.hint;
+  }
+
+  return { status: ERROR_CODES[code].httpStatus, body };
+}
+
+// ============================================================================
+// Google Error Payloads
+// ============================================================================
+
+interface GoogleProduct {
+  name: string;
+  /** Service name in Google Cloud Console */
+  service: string;
+}
+
+const PLACES_PRODUCT: GoogleProduct = { name: 'Places API (New)', service: 'places.googleapis.com' };
+
+/** Google product behind each API label used for requests and diagnostics */
+const GOOGLE_PRODUCTS: Record<string, GoogleProduct> = {
+  Geocoding: { name: 'Geocoding API', service: 'geocoding-backend.googleapis.com' },
+  'Nearby Search': PLACES_PRODUCT,
+  'Text Search': PLACES_PRODUCT,
+  'Place Details': PLACES_PRODUCT,
+  'Place Photos': PLACES_PRODUCT,
+  'Distance Matrix': { name: 'Distance Matrix API', service: 'distance-matrix-backend.googleapis.com' },
+};
+
+/** Legacy Maps APIs (Geocoding, Distance Matrix) answer 200 with the failure in `status` */
+interface LegacyErrorPayload {
+  status?: string;
+  error_message?: string;
+}
+
+/** Places API (New) answers with a google.rpc.Status */
+interface RpcErrorPayload {
+  error?: {
+    code?: number;
+    message?: string;
+    status?: string;
+    details?: Array<{
+      '@type'?: string;
+      reason?: string;
+      metadata?: Record<string, string>;
+      fieldViolations?: Array<{ field?: string; description?: string }>;
+    }>;
+  };
+}
+
+/** What both payload forms say about a failure */
+interface GoogleFailure {
+  status: string;
+  message: string;
+  /** ErrorInfo reason (Places API (New) only), e.g. SERVICE_DISABLED */
+  reason: string | null;
+  metadata: Record<string, string>;
+}
+
+/**
+ * Turn a failed Google response into the most specific GoogleApiError
+ * @param api - API label, e.g. "Text Search"
+ * @param payload - The parsed body: legacy `{ status, error_message }` or Places (New) `{ error }`
+ * @param retryAfter - The Retry-After header, if any
+ */
+export function parseGoogleError(api: string, httpStatus: number, payload: unknown, retryAfter?: string | null): GoogleApiError {
+  const product = GOOGLE_PRODUCTS[api] ?? { name: `${api} API`, service: '' };
+  const failure = readGoogleFailure(httpStatus, payload);
+  const { status, message, reason, metadata } = failure;
+  const failed = (summary: string) => `${api} failed: ${summary} (${status})`;
+
+  if (['OVER_QUERY_LIMIT', 'RESOURCE_EXHAUSTED'].includes(status) || httpStatus === 429 || reason === 'RATE_LIMIT_EXCEEDED') {
+    return new QuotaExceededError(failed(`over the ${product.name} quota`), getQuotaResetTime(failure, retryAfter), payload);
+  }
+
+  if (reason === 'SERVICE_DISABLED' || /API project is not authorized|has not been used in project|it is disabled/i.test(message)) {
+    const enableUrl = metadata.activationUrl || `https://console.cloud.google.com/apis/library/${product.service}`;
+    return new ApiNotEnabledError(failed(`the ${product.name} is not enabled for the key's project`), product.name, enableUrl, payload);
+  }
+
+  if (reason === 'BILLING_DISABLED' || /enable billing/i.test(message)) {
+    return new GoogleApiError(
+      failed("billing is not enabled for the key's project"),
+      payload,
+      'GOOGLE_API_ERROR',
+      'Enable billing for the project: https://console.cloud.google.com/project/_/billing/enable'
+    );
+  }
+
+  if (
+    (reason?.startsWith('API_KEY_') && reason.endsWith('_BLOCKED')) ||
+    /referer restrictions|not authorized to use this (service|API key)|are blocked/i.test(message)
+  ) {
+    return new ApiKeyRejectedError(failed(`the API key's restrictions block the ${product.name}`), true, product.name, payload);
+  }
+
+  if (reason === 'API_KEY_INVALID' || /API key not valid|provided API key is invalid|must use an API key/i.test(message)) {
+    return new ApiKeyRejectedError(failed('the API key is not valid'), false, product.name, payload);
+  }
+
+  if (status === 'OVER_DAILY_LIMIT') {
+    return new GoogleApiError(
+      failed('the key was refused'),
+      payload,
+      'GOOGLE_API_ERROR',
+      'The key may be invalid, billing may be off, or a daily cap set on the project was reached'
+    );
+  }
+
+  if (['INVALID_ARGUMENT', 'INVALID_REQUEST'].includes(status) || httpStatus === 400) {
+    return new InvalidArgumentError(failed(message || 'Google rejected the request'), payload);
+  }
+
+  if (status === 'NOT_FOUND' || httpStatus === 404) {
+    return new GoogleApiError(failed(message || 'not found'), payload, 'NOT_FOUND');
+  }
+
+  return new GoogleApiError(failed(message || 'unexpected response'), payload);
+}
+
+function readGoogleFailure(httpStatus: number, payload: unknown): GoogleFailure {
+  const rpc = (payload as RpcErrorPayload | null)?.error;
+  if (rpc && typeof rpc === 'object') {
+    const info = rpc.details?.find((detail) => detail.reason);
+    const violations = (rpc.details || []).flatMap((detail) => detail.fieldViolations || []);
+    return {
+      status: rpc.status || `HTTP ${httpStatus}`,
+      message: [rpc.message, ...violations.map((v) => `${v.field}: ${v.description}`)].filter(Boolean).join('; '),
+      reason: info?.reason ?? null,
+      metadata: info?.metadata ?? {},
+    };
+  }
+
+  const legacy = (payload || {}) as LegacyErrorPayload;
+  return {
+    status: typeof legacy.status === 'string' ? legacy.status : `HTTP ${httpStatus}`,
+    message: legacy.error_message || '',
+    reason: null,
+    metadata: {},
+  };
+}
+
+/**
+ * When an exceeded quota allows requests again: Retry-After if Google sent one, else
+ * the end of the quota's window when the error names it
+ */
+function getQuotaResetTime(failure: GoogleFailure, retryAfter: string | null | undefined, now = new Date()): string | null {
+  const seconds = Number(retryAfter);
+  if (retryAfter && Number.isFinite(seconds)) {
+    return new Date(now.getTime() + seconds * 1000).toISOString();
+  }
+
+  const text = `${failure.message} ${failure.metadata.quota_limit || ''}`;
+  if (/per ?day|daily/i.test(text)) {
+    return getNextPacificMidnight(now).toISOString();
+  }
+  if (/per ?minute/i.test(text)) {
+    return new Date(now.getTime() + 60_000).toISOString();
+  }
+  return null;
+}
+
+/**
+ * Daily quotas reset at midnight Pacific Time
+ */
+function getNextPacificMidnight(now: Date): Date {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: 'America/Los_Angeles',
+    hourCycle: 'h23',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(now);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value || 0);
+  const secondsIntoDay = part('hour') * 3600 + part('minute') * 60 + part('second');
+  return new Date(Math.floor(now.getTime() / 1000) * 1000 + (86400 - secondsIntoDay) * 1000);
+}
@@ -0,0 +1,654 @@
+/**
+ * Turf Finder service
+ * Runs the geocode → discovery → distance → details pipeline shared by the CLI,
+ * the Express server and the Vercel functions
+ */
+
+import {
+  Config,
+  DEFAULT_CONFIG,
+  DetailLevel,
+  SearchRequest,
+  SearchQuery,
+  SearchOutput,
+  SearchCacheStatus,
+  SearchPlan,
+  SearchWarning,
+  MeetupRequest,
+  MeetupOutput,
+  TurfResult,
+  TurfReview,
+  NearbySearchPlace,
+  PlaceDetailsResponse,
+  LatLng,
+  City,
+  GeocodingResult,
+  TravelQuery,
+  TurfTravel,
+  ValidationError,
+} from './types';
+import {
+  setApiKey,
+  geocodeLocation,
+  getCachedGeocode,
+  searchTurfs,
+  getPlaceDetailsBatch,
+  getPhotoUrls,
+  getTravelLegs,
+  getDistanceMatrixMode,
+} from './google';
+import { haversineDistance, roundDistance, filterWithinArea, filterWithinRadius } from './distance';
+import { resolveSearchArea, getSearchCircle } from './areas';
+import { getCity, findCityForPoint, findCityInText, getCityGeocodeOptions, getCitySportProfile } from './cities';
+import { SearchContext } from './context';
+import { getSportProfile, DEFAULT_SPORT } from './profiles';
+import { planSearch, GeocodeState } from './planner';
+import { resultCache, TtlCache } from './cache';
+import { SingleFlight } from './coalesce';
+import { UsageTracker } from './usage';
+import { findMeetupTurfs } from './meetup';
+import { normalizeDepartureTime } from './travel';
+import { MAX_RADIUS_KM, validateSearchRequest } from './validation';
+
+/** Result fields that are only filled from Place Details fields a level doesn't request */
+const UNREQUESTED_FIELDS: Record<DetailLevel, Array<keyof TurfResult>> = {
+  basic: ['phone', 'topReviews'],
+  contact: ['topReviews'],
+  full: [],
+};
+
+/** A discovered place with its distance, and travel time once ranked by it */
+interface RankedPlace {
+  place: NearbySearchPlace;
+  distanceKm: number;
+  travel: TurfTravel | null;
+}
+
+/** Searches currently running, shared by all finders so identical requests run once */
+const inflightSearches = new SingleFlight<SearchOutput>();
+
+export interface TurfFinderOptions extends Partial<Config> {
+  /** Google Maps API key; when omitted the key set via setApiKey() is used */
+  apiKey?: string;
+  /** Called with the output of each background refresh, e.g. to account for its usage */
+  onRevalidated?: (output: SearchOutput) => void;
+}
+
+export class TurfFinder {
+  private readonly config: Config;
+  private readonly onRevalidated?: (output: SearchOutput) => void;
+
+  constructor(options: TurfFinderOptions = {}) {
+    const { apiKey, onRevalidated, ...config } = options;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.onRevalidated = onRevalidated;
+    if (apiKey) {
+      setApiKey(apiKey);
+    }
+  }
+
+  /**
+   * Run a search, or only plan it when the request has `dryRun` set
+   */
+  async run(request: SearchRequest): Promise<SearchOutput | SearchPlan> {
+    return request.dryRun ? this.plan(request) : this.search(request);
+  }
+
+  /**
+   * Search for turfs around a location or coordinates
+   *
+   * Identical searches share one run while it is in flight, and a finished output
+   * is reused for resultCacheTtlMs. For staleWhileRevalidateMs after that it is
+   * still returned at once while a background run refreshes it.
+   */
+  async search(request: SearchRequest): Promise<SearchOutput> {
+    if (request.dryRun) {
+      throw new ValidationError('dryRun requests must go through plan() or run()');
+    }
+
+    const query = this.validateRequest(request);
+    if (this.config.resultCacheTtlMs <= 0) {
+      return this.execute(query);
+    }
+
+    const key = this.resultCacheKey(query);
+    const cached = resultCache.get(key);
+    if (cached) {
+      const ageMs = Date.now() - cached.cachedAt;
+      if (ageMs <= this.config.resultCacheTtlMs) {
+        return reuseOutput(cached.output, 'fresh', ageMs, query.budgetUsd);
+      }
+
+      console.log(`[Search] Serving stale result (${Math.round(ageMs / 1000)}s old), refreshing in the background`);
+      this.revalidate(key, query);
+      return reuseOutput(cached.output, 'stale', ageMs, query.budgetUsd);
+    }
+
+    const { promise, coalesced } = inflightSearches.run(key, () => this.executeAndCache(key, query));
+    const output = await promise;
+    if (coalesced) {
+      console.log('[Search] Joined an identical search already in flight');
+      return reuseOutput(output, 'coalesced', 0, query.budgetUsd);
+    }
+    return output;
+  }
+
+  /**
+   * Find turfs that suit several players, ranked by their distances from each one
+   */
+  async meetup(request: MeetupRequest): Promise<MeetupOutput> {
+    return findMeetupTurfs(request, this.config);
+  }
+
+  /**
+   * Run the full pipeline for a validated query
+   */
+  private async execute(query: SearchQuery): Promise<SearchOutput> {
+    const context = new SearchContext({
+      retryPolicy: this.config.retry,
+      budgetUsd: query.budgetUsd,
+    });
+    query = await this.geocodeQuery({ ...query }, context);
+
+    const searchCircle = getSearchCircle(query);
+    const { places, tilesUsed, classifications } = await searchTurfs(
+      searchCircle.center.lat,
+      searchCircle.center.lng,
+      searchCircle.radiusKm,
+      query.keyword,
+      query.maxResults,
+      {
+        maxPages: query.maxPages,
+        tiled: query.tiled,
+        tileRadiusKm: query.tileRadiusKm,
+        maxTiles: this.config.maxTiles,
+        profile: getCitySportProfile(query.sport, query.city),
+        minConfidence: query.minConfidence,
+        context,
+      }
+    );
+
+    // Calculate distances from the reference point, drop anything outside the radius or area and sort
+    const withDistance = places.map((place): RankedPlace => {
+      const location = getPlaceLocation(place);
+      const distanceKm = location
+        ? roundDistance(haversineDistance({ lat: query.lat, lng: query.lng }, location))
+        : Infinity;
+      return { place, distanceKm, travel: null };
+    });
+    const nearby = (
+      query.area
+        ? filterWithinArea(withDistance, query.area.geometry, ({ place }) => getPlaceLocation(place))
+        : filterWithinRadius(withDistance, query.radiusKm)
+    ).sort((a, b) => a.distanceKm - b.distanceKm);
+    const placesWithDistance = query.travel ? await rankByTravelTime(nearby, query, query.travel, context) : nearby;
+
+    // Fetch details for the closest N only
+    const placesToEnrich = placesWithDistance.slice(0, query.detailsLimit);
+    const placeIds = placesToEnrich.map((p) => p.place.id);
+    const detailsMap = await getPlaceDetailsBatch(
+      placeIds,
+      this.config.concurrencyLimit,
+      query.detailLevel,
+      context
+    );
+
+    const confidenceById = new Map(classifications.map((c) => [c.placeId, c.confidence]));
+    const results: TurfResult[] = placesToEnrich.map(({ place, distanceKm, travel }) => {
+      const details = detailsMap.get(place.id) || null;
+      return {
+        ...buildTurfResult(place, details, distanceKm, confidenceById.get(place.id), query.detailLevel),
+        travel,
+      };
+    });
+
+    const withoutDetails = results.filter((result) => !detailsMap.get(result.placeId));
+    if (withoutDetails.length > 0) {
+      context.warn({
+        code: 'details_missing',
+        message: `No details for ${withoutDetails.length} place(s), so phone numbers, hours and reviews may be missing: ${withoutDetails.map((r) => r.name).join(', ')}`,
+        placeIds: withoutDetails.map((r) => r.placeId),
+      });
+    }
+
+    if (!query.city) {
+      context.warn({
+        code: 'outside_cities',
+        message: 'The location is outside every supported city, so results may be less relevant',
+      });
+    }
+
+    const usage = context.usage.toReport();
+    const cachedApis = Object.keys(usage.cacheHits);
+    if (cachedApis.length > 0) {
+      context.warn({ code: 'cached', message: `Some responses came from cache: ${cachedApis.join(', ')}` });
+    }
+
+    const output: SearchOutput = {
+      query: describeQuery(query),
+      generatedAt: new Date().toISOString(),
+      totalFound: placesWithDistance.length,
+      detailsFetched: results.length,
+      tilesUsed,
+      results,
+      warnings: [...context.warnings],
+      diagnostics: context.toDiagnostics(),
+      usage,
+      cache: { status: 'fresh', ageMs: 0 },
+    };
+
+    if (query.explain) {
+      output.explain = {
+        threshold: query.minConfidence,
+        kept: classifications.filter((c) => c.kept),
+        rejected: classifications.filter((c) => !c.kept),
+      };
+    }
+
+    if (results.length === 0) {
+      output.message = query.travel?.maxMinutes
+        ? `No turfs found within ${query.travel.maxMinutes} min by ${query.travel.mode}.`
+        : query.area
+          ? 'No turfs found inside the search area.'
+          : 'No turfs found in the specified area. Try increasing the radius.';
+    }
+
+    return output;
+  }
+
+  private async executeAndCache(key: string, query: SearchQuery): Promise<SearchOutput> {
+    const output = await this.execute(query);
+
+    // Partial outputs (failed calls or queries, exhausted budget) are not worth reusing
+    const partial = output.diagnostics.failures.length > 0 || output.warnings.some((w) => w.code === 'query_failed');
+    if (!partial && !output.usage.budgetExhausted) {
+      resultCache.set(
+        key,
+        { cachedAt: Date.now(), output },
+        this.config.resultCacheTtlMs + this.config.staleWhileRevalidateMs
+      );
+    }
+
+    return output;
+  }
+
+  /**
+   * Refresh a stale output in the background unless a refresh is already running
+   */
+  private revalidate(key: string, query: SearchQuery): void {
+    const { promise, coalesced } = inflightSearches.run(key, () => this.executeAndCache(key, query));
+    if (coalesced) {
+      return;
+    }
+
+    promise
+      .then((output) => this.onRevalidated?.(output))
+      .catch((error) => {
+        console.warn(`[Search] Background refresh failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      });
+  }
+
+  /**
+   * Result cache key: every query field plus the config that changes the output
+   */
+  private resultCacheKey(query: SearchQuery): string {
+    return TtlCache.generateKey({ ...query, maxTiles: this.config.maxTiles });
+  }
+
+  /**
+   * Estimate the Google calls and cost of a search without calling Google
+   * A location that isn't in the geocode cache is planned as one Geocoding call,
+   * and its search queries can't be checked against the cache
+   */
+  async plan(request: SearchRequest): Promise<SearchPlan> {
+    const query = this.validateRequest(request);
+    let geocode: GeocodeState = 'not_needed';
+
+    if (query.needsGeocode && query.location) {
+      const cached = getCachedGeocode(query.location, getCityGeocodeOptions(query.city));
+      if (cached) {
+        // The same city and radius the search would take, so both plan the same queries
+        applyGeocode(query, cached);
+        geocode = 'cached';
+      } else {
+        geocode = 'required';
+      }
+    }
+
+    return {
+      dryRun: true,
+      query: describeQuery(query),
+      ...planSearch(query, this.config, geocode),
+    };
+  }
+
+  /**
+   * Validate a search request, apply defaults and geocode the location if needed
+   */
+  async resolveQuery(request: SearchRequest, context?: SearchContext): Promise<SearchQuery> {
+    return this.geocodeQuery(this.validateRequest(request), context);
+  }
+
+  /**
+   * Fill in the coordinates of a validated query that only has a location
+   */
+  private async geocodeQuery(query: SearchQuery, context?: SearchContext): Promise<SearchQuery> {
+    if (query.needsGeocode && query.location) {
+      applyGeocode(query, await geocodeLocation(query.location, getCityGeocodeOptions(query.city), context));
+    }
+
+    return query;
+  }
+
+  /**
+   * Validate a search request (field checks in validation.ts) and apply defaults
+   * Coordinates are left at 0,0 with needsGeocode set when the request only has a location; an area
+   * without a location or coordinates is measured from its centre. The city comes
+   * from the request, else the coordinates, location text or area (or, once
+   * geocoded, the location; see applyGeocode), and supplies the default radius.
+   */
+  validateRequest(input: SearchRequest): SearchQuery {
+    const request = validateSearchRequest(input);
+    const {
+      location,
+      lat,
+      lng,
+      sport = DEFAULT_SPORT,
+      keyword,
+      maxResults = this.config.maxResults,
+      detailsLimit = this.config.detailsLimit,
+      detailLevel = this.config.detailLevel,
+      maxPages = this.config.maxPagesPerQuery,
+      tiled = false,
+      tileRadiusKm = this.config.tileRadiusKm,
+      minConfidence = this.config.minConfidence,
+      explain = false,
+      budgetUsd = this.config.budgetUsd ?? undefined,
+      maxTravelMinutes,
+      departureTime,
+    } = request;
+    const area = resolveSearchArea(request.area, request.locality);
+    const city = resolveCity(request, area?.center);
+    const radiusKm = request.radiusKm ?? city?.defaultRadiusKm ?? this.config.defaultRadiusKm;
+
+    if (!location && (lat === undefined || lng === undefined) && !area) {
+      throw new ValidationError('Either location, both lat and lng, or an area or locality is required');
+    }
+
+    if ((lat === undefined) !== (lng === undefined)) {
+      throw new ValidationError('lat and lng must be provided together');
+    }
+
+    // Throws a ValidationError listing the available sports
+    const profile = getSportProfile(sport);
+
+    if (area && area.radiusKm > MAX_RADIUS_KM) {
+      throw new ValidationError(`The search area must fit inside a ${MAX_RADIUS_KM} km radius circle`);
+    }
+
+    if (!area && (radiusKm <= 0 || radiusKm > MAX_RADIUS_KM)) {
+      throw new ValidationError(`Radius must be between 0 and ${MAX_RADIUS_KM} km`);
+    }
+
+    const travelMode = request.travelMode ?? (maxTravelMinutes !== undefined || departureTime ? 'driving' : undefined);
+
+    const query: SearchQuery = {
+      lat: 0,
+      lng: 0,
+      needsGeocode: !!location && lat === undefined,
+      radiusKm,
+      radiusIsDefault: request.radiusKm === undefined && !area,
+      sport: profile.name,
+      keyword: keyword || undefined,
+      maxResults,
+      detailsLimit,
+      detailLevel,
+      maxPages,
+      tiled,
+      tileRadiusKm,
+      minConfidence,
+      explain,
+      budgetUsd: budgetUsd ?? null,
+      location,
+      area,
+      city: city?.id ?? null,
+      travel: travelMode
+        ? {
+          mode: travelMode,
+          maxMinutes: maxTravelMinutes ?? null,
+          departureTime: normalizeDepartureTime(departureTime),
+        }
+        : null,
+    };
+
+    if (area) {
+      // Informational only; searches use the exact covering circle (see getSearchCircle)
+      query.radiusKm = roundDistance(area.radiusKm);
+    }
+
+    if (lat !== undefined && lng !== undefined) {
+      query.lat = lat;
+      query.lng = lng;
+    } else if (area && !location) {
+      // Without a reference point, distances are measured from the middle of the area
+      query.lat = area.center.lat;
+      query.lng = area.center.lng;
+    }
+
+    return query;
+  }
+}
+
+// ============================================================================
+// Result Building
+// ============================================================================
+
+/**
+ * Query summary echoed back in search outputs and plans
+ */
+export function describeQuery(query: SearchQuery): SearchOutput['query'] {
+  return {
+    lat: query.lat,
+    lng: query.lng,
+    radiusKm: query.radiusKm,
+    sport: query.sport,
+    keyword: query.keyword || null,
+    detailLevel: query.detailLevel,
+    location: query.location,
+    formattedAddress: query.formattedAddress,
+    ...(query.area && { area: { name: query.area.name, type: query.area.geometry.type } }),
+    city: query.city ? { id: query.city, name: getCity(query.city).name } : null,
+    ...(query.travel && { travel: query.travel }),
+  };
+}
+
+export function buildTurfResult(
+  place: NearbySearchPlace,
+  details: PlaceDetailsResponse | null,
+  distanceKm: number,
+  confidence: number | null = null,
+  detailLevel: DetailLevel = DEFAULT_CONFIG.detailLevel
+): TurfResult {
+  const name = details?.displayName?.text || place.displayName?.text || 'Unknown';
+  const address = details?.formattedAddress || place.formattedAddress || 'Address not available';
+
+  // Phone number - try international first, then national
+  let phone: string | null = null;
+  if (details?.internationalPhoneNumber) {
+    phone = details.internationalPhoneNumber;
+  } else if (details?.nationalPhoneNumber) {
+    phone = details.nationalPhoneNumber;
+  }
+
+  // Google Maps URL
+  const mapsUrl = details?.googleMapsUri || `https://www.google.com/maps/place/?q=place_id:${place.id}`;
+
+  // Open now status
+  const openNow = details?.regularOpeningHours?.openNow ?? place.regularOpeningHours?.openNow ?? null;
+
+  // Rating and reviews count
+  const rating = details?.rating ?? place.rating ?? null;
+  const userRatingsTotal = details?.userRatingCount ?? place.userRatingCount ?? null;
+
+  // Photos
+  const photos = getPhotoUrls(details?.photos || place.photos, 3);
+
+  // Coordinates
+  const placeLat = details?.location?.latitude ?? place.location?.latitude ?? null;
+  const placeLng = details?.location?.longitude ?? place.location?.longitude ?? null;
+
+  // Reviews
+  const topReviews: TurfReview[] = (details?.reviews || []).slice(0, 3).map((review) => ({
+    author: review.authorAttribution?.displayName || 'Anonymous',
+    rating: review.rating ?? null,
+    relativeTime: review.relativePublishTimeDescription || '',
+    text: truncateText(review.text?.text || review.originalText?.text || '', 240),
+  }));
+
+  return {
+    placeId: place.id,
+    name,
+    distanceKm,
+    address,
+    mapsUrl,
+    phone,
+    openNow,
+    rating,
+    userRatingsTotal,
+    photos,
+    topReviews,
+    lat: placeLat,
+    lng: placeLng,
+    confidence,
+    unrequestedFields: [...UNREQUESTED_FIELDS[detailLevel]],
+    travel: null,
+  };
+}
+
+/**
+ * Order places by Distance Matrix travel time from the search location and drop those
+ * over the limit; places without a travel time keep their straight-line order after them
+ */
+async function rankByTravelTime(
+  places: RankedPlace[],
+  query: SearchQuery,
+  travel: TravelQuery,
+  context: SearchContext
+): Promise<RankedPlace[]> {
+  if (places.length === 0) {
+    return places;
+  }
+
+  if (context.usage.isBudgetExhausted()) {
+    console.warn('[Search] Budget reached; ranking by straight-line distance instead of travel time');
+    context.warn({
+      code: 'travel_unavailable',
+      message: 'The budget was reached before travel times were fetched, so places are ranked by straight-line distance',
+      placeIds: places.map(({ place }) => place.id),
+    });
+    return places;
+  }
+
+  const modeUsed = getDistanceMatrixMode(travel.mode);
+  if (modeUsed !== travel.mode) {
+    context.warn({
+      code: 'travel_mode_fallback',
+      message: `Distance Matrix has no ${travel.mode} mode, so travel times are ${modeUsed} times`,
+    });
+  }
+
+  const destinations = places.map(({ place }) => getPlaceLocation(place) as LatLng);
+  const [legs] = await getTravelLegs([{ lat: query.lat, lng: query.lng }], destinations, travel, context);
+  const withTravel = places.map((entry, index): RankedPlace => {
+    const leg = legs[index];
+    return { ...entry, travel: leg ? { mode: travel.mode, modeUsed, ...leg } : null };
+  });
+
+  const maxSeconds = travel.maxMinutes !== null ? travel.maxMinutes * 60 : Infinity;
+  const timed = withTravel
+    .filter((entry) => entry.travel && entry.travel.durationSeconds <= maxSeconds)
+    .sort((a, b) => (a.travel as TurfTravel).durationSeconds - (b.travel as TurfTravel).durationSeconds);
+  const untimed = withTravel.filter((entry) => !entry.travel);
+
+  if (untimed.length > 0) {
+    console.warn(`[Search] No travel time for ${untimed.length} place(s); ranking them by straight-line distance`);
+    context.warn({
+      code: 'travel_unavailable',
+      message: `No ${travel.mode} travel time for ${untimed.length} place(s), so they are ranked by straight-line distance after the others`,
+      placeIds: untimed.map(({ place }) => place.id),
+    });
+  }
+
+  return [...timed, ...untimed];
+}
+
+/**
+ * Copy of an earlier output for another request; it made no Google calls of its own
+ */
+function reuseOutput(
+  output: SearchOutput,
+  status: SearchCacheStatus,
+  ageMs: number,
+  budgetUsd: number | null
+): SearchOutput {
+  const reused: SearchWarning = {
+    code: 'cached',
+    message: status === 'coalesced'
+      ? 'Shared with an identical search that was already running'
+      : `Reused a result from ${Math.round(ageMs / 1000)}s ago${status === 'stale' ? ' while a fresh one is fetched' : ''}`,
+  };
+
+  return {
+    ...output,
+    warnings: [...output.warnings.filter((w) => w.code !== 'cached'), reused],
+    usage: new UsageTracker(budgetUsd).toReport(),
+    cache: { status, ageMs },
+  };
+}
+
+/**
+ * Fill in the geocoded coordinates of a query's location
+ * A location that only resolves to a city once geocoded (e.g. a neighbourhood
+ * name) takes that city, and its default radius unless the request gave one.
+ */
+function applyGeocode(query: SearchQuery, geocodeResult: GeocodingResult): void {
+  query.lat = geocodeResult.lat;
+  query.lng = geocodeResult.lng;
+  query.formattedAddress = geocodeResult.formattedAddress;
+  query.needsGeocode = false;
+
+  if (!query.city) {
+    const city = findCityForPoint(query.lat, query.lng);
+    query.city = city?.id ?? null;
+    if (city && query.radiusIsDefault) {
+      query.radiusKm = city.defaultRadiusKm;
+    }
+  }
+}
+
+/**
+ * City a request is in: named explicitly, else found from its coordinates,
+ * its location text or the middle of its area
+ */
+function resolveCity(request: SearchRequest, areaCenter?: LatLng): City | null {
+  if (request.city) {
+    return getCity(request.city);
+  }
+  if (request.lat !== undefined && request.lng !== undefined) {
+    return findCityForPoint(request.lat, request.lng);
+  }
+  if (request.location) {
+    return findCityInText(request.location) ?? (areaCenter ? findCityForPoint(areaCenter.lat, areaCenter.lng) : null);
+  }
+  return areaCenter ? findCityForPoint(areaCenter.lat, areaCenter.lng) : null;
+}
+
+function getPlaceLocation(place: NearbySearchPlace): LatLng | null {
+  const { latitude, longitude } = place.location || {};
+  return latitude !== undefined && longitude !== undefined ? { lat: latitude, lng: longitude } : null;
+}
+
+function truncateText(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  return text.substring(0, maxLength - 3) + '...';
+}
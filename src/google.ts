@@ -7,22 +7,50 @@ import {
   GeocodingResult,
   GoogleApiError,
   GeocodingError,
+  ConfigurationError,
+  ApiNotEnabledError,
+  ApiKeyRejectedError,
+  TurfFinderError,
   NearbySearchPlace,
   PlaceDetailsResponse,
   DEFAULT_CONFIG,
   LatLng,
+  SearchCircle,
+  DetailLevel,
+  DETAIL_LEVELS,
+  SportProfile,
+  PlaceClassification,
+  UsageSku,
+  TravelMode,
+  TravelLeg,
+  TravelOptions,
+  TravelStatus,
+  TravelElement,
+  ValidationError,
 } from './types';
-import { geocodeCache, searchCache, detailsCache, TtlCache } from './cache';
+import { geocodeCache, searchCache, detailsCache, resultCache, allCaches, TtlCache } from './cache';
+import { findCoveringSearch, rememberSearchArea } from './spatial';
+import { SearchContext } from './context';
+import { fetchWithRetry } from './http';
+import { buildHexTiles, chooseTileRadiusKm, SearchTile } from './tiles';
+import { getSportProfile } from './profiles';
+import { classifyPlaces } from './classifier';
+import { getPlaceDetailsSku, getSearchSku } from './usage';
+import { parseGoogleError } from './errors';
 
 // ============================================================================
 // Constants
 // ============================================================================
 
-const GEOCODING_API_URL = 'https://maps.googleapis.com/maps/api/geocode/json';
-const PLACES_NEARBY_SEARCH_URL = 'https://places.googleapis.com/v1/places:searchNearby';
-const PLACES_TEXT_SEARCH_URL = 'https://places.googleapis.com/v1/places:searchText';
-const PLACES_DETAILS_URL = 'https://places.googleapis.com/v1/places';
-const PLACES_PHOTO_URL = 'https://places.googleapis.com/v1';
+const MAPS_API_BASE_URL = 'https://maps.googleapis.com';
+const PLACES_API_BASE_URL = 'https://places.googleapis.com';
+
+const GEOCODING_API_PATH = '/maps/api/geocode/json';
+const DISTANCE_MATRIX_API_PATH = '/maps/api/distancematrix/json';
+const PLACES_NEARBY_SEARCH_PATH = '/v1/places:searchNearby';
+const PLACES_TEXT_SEARCH_PATH = '/v1/places:searchText';
+const PLACES_DETAILS_PATH = '/v1/places';
+const PLACES_PHOTO_PATH = '/v1';
 
 // Field masks for Places API (New)
 const NEARBY_SEARCH_FIELD_MASK = [
@@ -38,105 +66,27 @@ const NEARBY_SEARCH_FIELD_MASK = [
   'places.types',
 ].join(',');
 
-const PLACE_DETAILS_FIELD_MASK = [
-  'id',
-  'displayName',
-  'formattedAddress',
+// Text Search paginates, so the page token has to be requested explicitly
+const TEXT_SEARCH_FIELD_MASK = `${NEARBY_SEARCH_FIELD_MASK},nextPageToken`;
+
+// Place Details fields per detail level; each level includes the ones before it
+const BASIC_DETAILS_FIELDS = ['id', 'displayName', 'formattedAddress', 'location', 'photos', 'googleMapsUri', 'businessStatus'];
+const CONTACT_DETAILS_FIELDS = [
+  ...BASIC_DETAILS_FIELDS,
   'nationalPhoneNumber',
   'internationalPhoneNumber',
-  'location',
+  'websiteUri',
+  'regularOpeningHours',
   'rating',
   'userRatingCount',
-  'photos',
-  'reviews',
-  'regularOpeningHours',
-  'googleMapsUri',
-  'websiteUri',
-  'businessStatus',
-].join(',');
-
-// Default turf-related keywords - expanded for better coverage
-const DEFAULT_TURF_KEYWORDS = [
-  'turf',
-  'football turf', 
-  'box cricket',
-  'turf ground',
-  'sports turf',
-  'cricket ground',
-  'football ground',
-  'futsal',
-  'five a side football',
-  'seven a side football',
-];
-
-// Keywords to exclude from results (non-turf indoor activities)
-const EXCLUDE_KEYWORDS = [
-  'bowling',
-  'bowl',
-  'arcade',
-  'gaming zone',
-  'game zone',
-  'virtual reality',
-  'vr arena',
-  'laser tag',
-  'escape room',
-  'trampoline',
-  'go kart',
-  'karting',
-  'billiard',
-  'pool table',
-  'snooker',
-  'paintball',
-  'shooting range',
-  'ice skating',
-  'roller skating',
-  'spa',
-  'salon',
-  'restaurant',
-  'cafe',
-  'bar',
-  'pub',
-  'lounge',
 ];
+const FULL_DETAILS_FIELDS = [...CONTACT_DETAILS_FIELDS, 'reviews'];
 
-/**
- * Filter out non-turf results based on name and types
- */
-function filterTurfResults(places: NearbySearchPlace[]): NearbySearchPlace[] {
-  return places.filter((place) => {
-    const name = (place.displayName?.text || '').toLowerCase();
-    const types = place.types || [];
-    
-    // Check if name contains any exclude keywords
-    for (const keyword of EXCLUDE_KEYWORDS) {
-      if (name.includes(keyword)) {
-        console.log(`[Filter] Excluding "${place.displayName?.text}" - matches exclude keyword: ${keyword}`);
-        return false;
-      }
-    }
-    
-    // Exclude certain Google place types
-    const excludeTypes = [
-      'bowling_alley',
-      'amusement_center',
-      'movie_theater',
-      'night_club',
-      'casino',
-      'bar',
-      'restaurant',
-      'cafe',
-    ];
-    
-    for (const type of excludeTypes) {
-      if (types.includes(type)) {
-        console.log(`[Filter] Excluding "${place.displayName?.text}" - has type: ${type}`);
-        return false;
-      }
-    }
-    
-    return true;
-  });
-}
+const PLACE_DETAILS_FIELD_MASKS: Record<DetailLevel, string> = {
+  basic: BASIC_DETAILS_FIELDS.join(','),
+  contact: CONTACT_DETAILS_FIELDS.join(','),
+  full: FULL_DETAILS_FIELDS.join(','),
+};
 
 // ============================================================================
 // API Key Management
@@ -150,11 +100,66 @@ export function setApiKey(key: string): void {
 
 export function getApiKey(): string {
   if (!apiKey) {
-    throw new GoogleApiError('Google Maps API key not set. Call setApiKey() or set GOOGLE_MAPS_API_KEY env var.');
+    throw new ConfigurationError('Google Maps API key not set. Call setApiKey() or set GOOGLE_MAPS_API_KEY env var.');
   }
   return apiKey;
 }
 
+/**
+ * Use GOOGLE_MAPS_API_KEY unless a key is already set (for servers started before it was)
+ * @throws ConfigurationError when there is neither
+ */
+export function ensureApiKeyFromEnv(): void {
+  if (apiKey) {
+    return;
+  }
+  const envKey = process.env.GOOGLE_MAPS_API_KEY;
+  if (!envKey) {
+    throw new ConfigurationError('Google Maps API key is not configured');
+  }
+  apiKey = envKey;
+}
+
+// ============================================================================
+// API Base URLs
+// ============================================================================
+
+/** Origin set with setApiBaseUrl(); null falls back to GOOGLE_API_BASE_URL, then Google */
+let apiBaseUrl: string | null = null;
+
+/**
+ * Send all Google API requests to another server (e.g. the local emulator)
+ * @param baseUrl - Origin such as "http://localhost:4010", or null to restore the default
+ */
+export function setApiBaseUrl(baseUrl: string | null): void {
+  apiBaseUrl = baseUrl ? baseUrl.replace(/\/+$/, '') : null;
+}
+
+// The env var is read per request so a .env file loaded after import still applies
+function getMapsBaseUrl(): string {
+  return apiBaseUrl || process.env.GOOGLE_API_BASE_URL?.replace(/\/+$/, '') || MAPS_API_BASE_URL;
+}
+
+function getPlacesBaseUrl(): string {
+  return apiBaseUrl || process.env.GOOGLE_API_BASE_URL?.replace(/\/+$/, '') || PLACES_API_BASE_URL;
+}
+
+/**
+ * Distance Matrix endpoint, honouring the configured base URL
+ */
+export function getDistanceMatrixUrl(): string {
+  return `${getMapsBaseUrl()}${DISTANCE_MATRIX_API_PATH}`;
+}
+
+/**
+ * retryBody for the legacy APIs: they report rate limiting as HTTP 200 with
+ * status OVER_QUERY_LIMIT. A spent daily quota won't clear by retrying.
+ */
+function retryOverQueryLimit(body: unknown): string | null {
+  const { status, error_message: message = '' } = (body || {}) as { status?: string; error_message?: string };
+  return status === 'OVER_QUERY_LIMIT' && !/per ?day|daily/i.test(message) ? status : null;
+}
+
 // ============================================================================
 // Geocoding API
 // ============================================================================
@@ -174,12 +179,14 @@ export interface GeocodeOptions {
  */
 export async function geocodeLocation(
   address: string,
-  options: GeocodeOptions = {}
+  options: GeocodeOptions = {},
+  context?: SearchContext
 ): Promise<GeocodingResult> {
-  const cacheKey = TtlCache.generateKey({ address, ...options });
+  const cacheKey = geocodeCacheKey(address, options);
   const cached = geocodeCache.get(cacheKey);
   if (cached) {
     console.log(`[Cache] Using cached geocode result for "${address}"`);
+    context?.usage.recordCacheHit('Geocoding');
     return cached;
   }
 
@@ -196,7 +203,7 @@ export async function geocodeLocation(
     );
   }
 
-  const url = `${GEOCODING_API_URL}?${params.toString()}`;
+  const url = `${getMapsBaseUrl()}${GEOCODING_API_PATH}?${params.toString()}`;
 
   // Type for Geocoding API response
   interface GeocodingApiResponse {
@@ -209,15 +216,16 @@ export async function geocodeLocation(
   }
 
   try {
-    const response = await fetch(url);
+    const response = await fetchWithRetry(url, {}, { api: 'Geocoding', context, retryBody: retryOverQueryLimit });
     const data = (await response.json()) as GeocodingApiResponse;
+    context?.usage.recordCall('geocoding');
 
     if (data.status === 'ZERO_RESULTS') {
-      throw new GeocodingError(`No results found for location: "${address}"`);
+      throw new GeocodingError(`No results found for location: "${address}"`, undefined, 'NOT_FOUND');
     }
 
     if (data.status !== 'OK') {
-      throw new GeocodingError(`Geocoding failed: ${data.status}`, data);
+      throw parseGoogleError('Geocoding', response.status, data);
     }
 
     const result = data.results[0];
@@ -230,11 +238,22 @@ export async function geocodeLocation(
     geocodeCache.set(cacheKey, geocodeResult);
     return geocodeResult;
   } catch (error) {
-    if (error instanceof GeocodingError) throw error;
+    if (error instanceof TurfFinderError) throw error;
     throw new GeocodingError(`Geocoding request failed: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
   }
 }
 
+/**
+ * Look up a geocode result in the cache without calling Google
+ */
+export function getCachedGeocode(address: string, options: GeocodeOptions = {}): GeocodingResult | null {
+  return geocodeCache.peek(geocodeCacheKey(address, options));
+}
+
+function geocodeCacheKey(address: string, options: GeocodeOptions): string {
+  return TtlCache.generateKey({ address, ...options });
+}
+
 // ============================================================================
 // Places Nearby Search (New)
 // ============================================================================
@@ -251,14 +270,26 @@ export interface NearbySearchOptions {
 /**
  * Search for places near a location using Places API (New)
  */
-export async function nearbySearch(options: NearbySearchOptions): Promise<NearbySearchPlace[]> {
-  const cacheKey = TtlCache.generateKey({ type: 'nearby', ...options });
+export async function nearbySearch(
+  options: NearbySearchOptions,
+  context?: SearchContext
+): Promise<NearbySearchPlace[]> {
+  const cacheKey = nearbySearchCacheKey(options);
   const cached = searchCache.get(cacheKey) as NearbySearchPlace[] | null;
   if (cached) {
     console.log(`[Cache] Using cached nearby search results`);
+    context?.usage.recordCacheHit('Nearby Search');
     return cached;
   }
 
+  const maxResultCount = options.maxResultCount || DEFAULT_CONFIG.maxResults;
+  const covering = findCoveringSearch(nearbySearchQuery(options), toSearchCircle(options), maxResultCount);
+  if (covering) {
+    console.log(`[Cache] Using nearby search results cached for a ${formatRadius(covering.area.radiusMeters)} circle around this one`);
+    context?.usage.recordCacheHit('Nearby Search');
+    return covering.places;
+  }
+
   const requestBody: Record<string, unknown> = {
     locationRestriction: {
       circle: {
@@ -269,7 +300,7 @@ export async function nearbySearch(options: NearbySearchOptions): Promise<Nearby
         radius: Math.min(options.radiusMeters, 50000), // Max 50km
       },
     },
-    maxResultCount: options.maxResultCount || DEFAULT_CONFIG.maxResults,
+    maxResultCount,
   };
 
   // Add included types for better filtering
@@ -278,7 +309,7 @@ export async function nearbySearch(options: NearbySearchOptions): Promise<Nearby
   }
 
   try {
-    const response = await fetch(PLACES_NEARBY_SEARCH_URL, {
+    const response = await fetchWithRetry(`${getPlacesBaseUrl()}${PLACES_NEARBY_SEARCH_PATH}`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -286,24 +317,52 @@ export async function nearbySearch(options: NearbySearchOptions): Promise<Nearby
         'X-Goog-FieldMask': NEARBY_SEARCH_FIELD_MASK,
       },
       body: JSON.stringify(requestBody),
-    });
+    }, { api: 'Nearby Search', context });
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
-      throw new GoogleApiError(`Nearby search failed: ${response.status} ${response.statusText}`, errorData);
+      throw parseGoogleError('Nearby Search', response.status, errorData, response.headers.get('retry-after'));
     }
 
     const data = (await response.json()) as { places?: NearbySearchPlace[] };
     const places = data.places || [];
+    context?.usage.recordCall(getSearchSku('nearby_search', NEARBY_SEARCH_FIELD_MASK));
 
     searchCache.set(cacheKey, places);
+    // Fewer places than asked for means the circle holds no others
+    if (places.length < maxResultCount) {
+      rememberSearchArea(nearbySearchQuery(options), toSearchCircle(options), cacheKey);
+    }
     return places;
   } catch (error) {
-    if (error instanceof GoogleApiError) throw error;
+    if (error instanceof TurfFinderError) throw error;
     throw new GoogleApiError(`Nearby search request failed: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
   }
 }
 
+export function isNearbySearchCached(options: NearbySearchOptions): boolean {
+  return (
+    searchCache.has(nearbySearchCacheKey(options)) ||
+    findCoveringSearch(
+      nearbySearchQuery(options),
+      toSearchCircle(options),
+      options.maxResultCount || DEFAULT_CONFIG.maxResults,
+      true
+    ) !== null
+  );
+}
+
+function nearbySearchCacheKey(options: NearbySearchOptions): string {
+  return TtlCache.generateKey({ type: 'nearby', ...options });
+}
+
+/**
+ * What a nearby search matches, apart from where; searches with the same query can be reused spatially
+ */
+function nearbySearchQuery(options: NearbySearchOptions): Record<string, unknown> {
+  return { type: 'nearby', includedTypes: options.includedTypes, keyword: options.keyword };
+}
+
 // ============================================================================
 // Places Text Search (New) - Better for keyword searches
 // ============================================================================
@@ -313,58 +372,141 @@ export interface TextSearchOptions {
   lat: number;
   lng: number;
   radiusMeters: number;
+  /** Total results wanted across all pages */
   maxResultCount?: number;
+  /** Maximum number of pages to request by following nextPageToken */
+  maxPages?: number;
 }
 
+/** Text Search (New) returns at most 20 places per page */
+export const TEXT_SEARCH_PAGE_SIZE = 20;
+
+/** Text Search (New) stops handing out page tokens after 60 places */
+export const TEXT_SEARCH_MAX_RESULTS = 60;
+
 /**
  * Search for places using text query (better for turf keyword searches)
+ * Follows nextPageToken until enough results are collected or the page cap is reached
  */
-export async function textSearch(options: TextSearchOptions): Promise<NearbySearchPlace[]> {
-  const cacheKey = TtlCache.generateKey({ type: 'text', ...options });
+export async function textSearch(
+  options: TextSearchOptions,
+  context?: SearchContext
+): Promise<NearbySearchPlace[]> {
+  const cacheKey = textSearchCacheKey(options);
   const cached = searchCache.get(cacheKey) as NearbySearchPlace[] | null;
   if (cached) {
     console.log(`[Cache] Using cached text search results`);
+    context?.usage.recordCacheHit('Text Search');
     return cached;
   }
 
-  const requestBody: Record<string, unknown> = {
-    textQuery: options.textQuery,
-    // Use locationRestriction to strictly limit results to the search area
-    locationRestriction: {
-      circle: {
-        center: {
-          latitude: options.lat,
-          longitude: options.lng,
+  const maxResultCount = options.maxResultCount || DEFAULT_CONFIG.maxResults;
+  const covering = findCoveringSearch(textSearchQuery(options), toSearchCircle(options), maxResultCount);
+  if (covering) {
+    console.log(`[Cache] Using text search results cached for a ${formatRadius(covering.area.radiusMeters)} circle around this one`);
+    context?.usage.recordCacheHit('Text Search');
+    return covering.places;
+  }
+
+  const maxPages = options.maxPages || DEFAULT_CONFIG.maxPagesPerQuery;
+  const places: NearbySearchPlace[] = [];
+  let pageToken: string | undefined;
+
+  for (let page = 1; page <= maxPages && places.length < maxResultCount; page++) {
+    const requestBody: Record<string, unknown> = {
+      textQuery: options.textQuery,
+      // Use locationRestriction to strictly limit results to the search area
+      locationRestriction: {
+        circle: {
+          center: {
+            latitude: options.lat,
+            longitude: options.lng,
+          },
+          radius: Math.min(options.radiusMeters, 50000),
         },
-        radius: Math.min(options.radiusMeters, 50000),
       },
-    },
-    maxResultCount: options.maxResultCount || DEFAULT_CONFIG.maxResults,
-  };
+      pageSize: Math.min(TEXT_SEARCH_PAGE_SIZE, maxResultCount - places.length),
+    };
+
+    if (pageToken) {
+      requestBody.pageToken = pageToken;
+    }
+
+    const data = await fetchTextSearchPage(requestBody, context);
+    places.push(...(data.places || []));
+    pageToken = data.nextPageToken;
+
+    if (!pageToken) {
+      break;
+    }
+  }
+
+  searchCache.set(cacheKey, places);
+  // Without a next page token Google had nothing more in the circle, unless the list
+  // stopped at our result cap or Google's own 60-place cap
+  const capped = places.length >= maxResultCount || places.length >= TEXT_SEARCH_MAX_RESULTS;
+  if (!pageToken && !capped) {
+    rememberSearchArea(textSearchQuery(options), toSearchCircle(options), cacheKey);
+  }
+  return places;
+}
+
+export function isTextSearchCached(options: TextSearchOptions): boolean {
+  return (
+    searchCache.has(textSearchCacheKey(options)) ||
+    findCoveringSearch(
+      textSearchQuery(options),
+      toSearchCircle(options),
+      options.maxResultCount || DEFAULT_CONFIG.maxResults,
+      true
+    ) !== null
+  );
+}
+
+function textSearchCacheKey(options: TextSearchOptions): string {
+  return TtlCache.generateKey({ type: 'text', ...options });
+}
+
+function textSearchQuery(options: TextSearchOptions): Record<string, unknown> {
+  return { type: 'text', textQuery: options.textQuery };
+}
+
+function toSearchCircle(options: { lat: number; lng: number; radiusMeters: number }): SearchCircle {
+  return { lat: options.lat, lng: options.lng, radiusMeters: Math.min(options.radiusMeters, 50000) };
+}
+
+function formatRadius(radiusMeters: number): string {
+  return radiusMeters >= 1000 ? `${Number((radiusMeters / 1000).toFixed(1))} km` : `${Math.round(radiusMeters)} m`;
+}
 
+/**
+ * Request a single page of Text Search results
+ */
+async function fetchTextSearchPage(
+  requestBody: Record<string, unknown>,
+  context?: SearchContext
+): Promise<{ places?: NearbySearchPlace[]; nextPageToken?: string }> {
   try {
-    const response = await fetch(PLACES_TEXT_SEARCH_URL, {
+    const response = await fetchWithRetry(`${getPlacesBaseUrl()}${PLACES_TEXT_SEARCH_PATH}`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
         'X-Goog-Api-Key': getApiKey(),
-        'X-Goog-FieldMask': NEARBY_SEARCH_FIELD_MASK,
+        'X-Goog-FieldMask': TEXT_SEARCH_FIELD_MASK,
       },
       body: JSON.stringify(requestBody),
-    });
+    }, { api: 'Text Search', context });
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
-      throw new GoogleApiError(`Text search failed: ${response.status} ${response.statusText}`, errorData);
+      throw parseGoogleError('Text Search', response.status, errorData, response.headers.get('retry-after'));
     }
 
-    const data = (await response.json()) as { places?: NearbySearchPlace[] };
-    const places = data.places || [];
-
-    searchCache.set(cacheKey, places);
-    return places;
+    const data = (await response.json()) as { places?: NearbySearchPlace[]; nextPageToken?: string };
+    context?.usage.recordCall(getSearchSku('text_search', TEXT_SEARCH_FIELD_MASK));
+    return data;
   } catch (error) {
-    if (error instanceof GoogleApiError) throw error;
+    if (error instanceof TurfFinderError) throw error;
     throw new GoogleApiError(`Text search request failed: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
   }
 }
@@ -373,89 +515,264 @@ export async function textSearch(options: TextSearchOptions): Promise<NearbySear
 // Combined Turf Search
 // ============================================================================
 
+export interface SearchTurfsOptions {
+  /** Page cap for each keyword's Text Search */
+  maxPages?: number;
+  /** Split the search circle into a hex grid of overlapping tiles */
+  tiled?: boolean;
+  /** Preferred tile radius; grown automatically to stay within maxTiles */
+  tileRadiusKm?: number;
+  maxTiles?: number;
+  /** Sport profile supplying keywords, place types and exclusions (defaults to "any") */
+  profile?: SportProfile;
+  /** Minimum relevance confidence for a place to be kept */
+  minConfidence?: number;
+  context?: SearchContext;
+}
+
+export interface TurfSearchPlan {
+  /** Text Search queries in the order they run */
+  keywords: string[];
+  /** Place types for the Nearby Search (empty skips it) */
+  includedTypes: string[];
+  /** Search circles, center first */
+  tiles: SearchTile[];
+}
+
+export interface TurfSearchResult {
+  /** Places that passed the relevance classifier */
+  places: NearbySearchPlace[];
+  /** Number of search circles queried (1 unless tiled) */
+  tilesUsed: number;
+  /** Relevance decision for every discovered place, kept or rejected */
+  classifications: PlaceClassification[];
+}
+
 /**
  * Search for turfs using multiple keyword searches and combine results
+ * With `tiled`, each tile of a hex grid over the search circle is searched separately
  */
 export async function searchTurfs(
   lat: number,
   lng: number,
   radiusKm: number,
   customKeyword?: string,
-  maxResults: number = DEFAULT_CONFIG.maxResults
-): Promise<NearbySearchPlace[]> {
-  const radiusMeters = radiusKm * 1000;
+  maxResults: number = DEFAULT_CONFIG.maxResults,
+  options: SearchTurfsOptions = {}
+): Promise<TurfSearchResult> {
+  const {
+    maxPages = DEFAULT_CONFIG.maxPagesPerQuery,
+    tiled = false,
+    tileRadiusKm = DEFAULT_CONFIG.tileRadiusKm,
+    maxTiles = DEFAULT_CONFIG.maxTiles,
+    profile = getSportProfile(),
+    minConfidence = DEFAULT_CONFIG.minConfidence,
+    context,
+  } = options;
   const seenPlaceIds = new Set<string>();
   const allPlaces: NearbySearchPlace[] = [];
 
+  const { keywords, includedTypes, tiles } = buildTurfSearchPlan(lat, lng, radiusKm, customKeyword, {
+    tiled,
+    tileRadiusKm,
+    maxTiles,
+    profile,
+  });
+
+  if (tiled) {
+    console.log(`[Search] Splitting ${radiusKm} km search into ${tiles.length} tiles of ${tiles[0].radiusKm.toFixed(2)} km`);
+  }
+
+  let tilesUsed = 0;
+  for (const tile of tiles) {
+    if (context?.usage.isBudgetExhausted()) {
+      const skipped = (tiles.length - tilesUsed) * keywords.length;
+      context.usage.recordSkippedQuery(skipped);
+      console.log(`[Search] Budget reached, skipping ${skipped} queries in ${tiles.length - tilesUsed} remaining tiles`);
+      break;
+    }
+
+    tilesUsed++;
+    const tilePlaces = await searchTile(
+      tile,
+      keywords,
+      includedTypes,
+      maxResults,
+      maxResults - allPlaces.length,
+      maxPages,
+      context
+    );
+
+    // Add unique places
+    for (const place of tilePlaces) {
+      if (!seenPlaceIds.has(place.id)) {
+        seenPlaceIds.add(place.id);
+        allPlaces.push(place);
+      }
+    }
+
+    // Stop if we have enough results
+    if (allPlaces.length >= maxResults) {
+      break;
+    }
+  }
+
+  console.log(`[Search] Total unique places found: ${allPlaces.length}`);
+  
+  // Drop places the classifier doesn't consider relevant
+  const { kept, classifications } = classifyPlaces(allPlaces, profile, minConfidence);
+  console.log(
+    `[Search] After relevance filtering: ${kept.length} turf results (${allPlaces.length - kept.length} rejected)`
+  );
+  
+  return { places: kept.slice(0, maxResults), tilesUsed, classifications };
+}
+
+/**
+ * Work out which queries searchTurfs would run, without running them
+ */
+export function buildTurfSearchPlan(
+  lat: number,
+  lng: number,
+  radiusKm: number,
+  customKeyword?: string,
+  options: Pick<SearchTurfsOptions, 'tiled' | 'tileRadiusKm' | 'maxTiles' | 'profile'> = {}
+): TurfSearchPlan {
+  const {
+    tiled = false,
+    tileRadiusKm = DEFAULT_CONFIG.tileRadiusKm,
+    maxTiles = DEFAULT_CONFIG.maxTiles,
+    profile = getSportProfile(),
+  } = options;
+
   // Build search queries - prioritize custom keyword if provided
   const keywords = customKeyword
-    ? [customKeyword, ...DEFAULT_TURF_KEYWORDS.filter((k) => k !== customKeyword)]
-    : DEFAULT_TURF_KEYWORDS;
+    ? [customKeyword, ...profile.keywords.filter((k) => k !== customKeyword)]
+    : profile.keywords;
 
-  // First, try Nearby Search with sports-related place types
-  try {
-    console.log(`[Search] Running Nearby Search for sports facilities...`);
-    const nearbyPlaces = await nearbySearch({
-      lat,
-      lng,
-      radiusMeters,
-      includedTypes: ['sports_club', 'sports_complex', 'stadium', 'gym'],
-      maxResultCount: Math.min(20, maxResults),
-    });
-    
-    for (const place of nearbyPlaces) {
+  const tiles: SearchTile[] = tiled
+    ? buildHexTiles({ lat, lng }, radiusKm, chooseTileRadiusKm(radiusKm, tileRadiusKm, maxTiles))
+    : [{ lat, lng, radiusKm }];
+
+  return { keywords, includedTypes: profile.includedTypes, tiles };
+}
+
+/**
+ * Nearby Search request searchTurfs makes for a tile
+ */
+export function getTileNearbySearchOptions(
+  tile: SearchTile,
+  includedTypes: string[],
+  maxResults: number
+): NearbySearchOptions {
+  return {
+    lat: tile.lat,
+    lng: tile.lng,
+    radiusMeters: tile.radiusKm * 1000,
+    includedTypes,
+    maxResultCount: Math.min(20, maxResults),
+  };
+}
+
+/**
+ * Text Search request searchTurfs makes for a keyword in a tile
+ */
+export function getTileTextSearchOptions(
+  tile: SearchTile,
+  keyword: string,
+  maxResults: number,
+  maxPages: number
+): TextSearchOptions {
+  return {
+    textQuery: keyword,
+    lat: tile.lat,
+    lng: tile.lng,
+    radiusMeters: tile.radiusKm * 1000,
+    maxResultCount: maxResults,
+    maxPages,
+  };
+}
+
+/**
+ * Run the Nearby Search and keyword Text Searches for a single search circle
+ * Requests are always sized by maxResults so cache keys don't depend on how many
+ * places earlier tiles found; `needed` only decides when to stop
+ */
+async function searchTile(
+  tile: SearchTile,
+  keywords: string[],
+  includedTypes: string[],
+  maxResults: number,
+  needed: number,
+  maxPages: number,
+  context?: SearchContext
+): Promise<NearbySearchPlace[]> {
+  const seenPlaceIds = new Set<string>();
+  const places: NearbySearchPlace[] = [];
+
+  const addPlaces = (found: NearbySearchPlace[]) => {
+    for (const place of found) {
       if (!seenPlaceIds.has(place.id)) {
         seenPlaceIds.add(place.id);
-        allPlaces.push(place);
+        places.push(place);
       }
     }
-    console.log(`[Search] Nearby Search found ${nearbyPlaces.length} sports facilities`);
-  } catch (error) {
-    console.warn(`[Search] Nearby Search failed:`, error instanceof Error ? error.message : error);
+  };
+
+  // First, try Nearby Search with the profile's sports-related place types
+  if (includedTypes.length > 0) {
+    try {
+      console.log(`[Search] Running Nearby Search for sports facilities...`);
+      const nearbyPlaces = await nearbySearch(getTileNearbySearchOptions(tile, includedTypes, maxResults), context);
+
+      addPlaces(nearbyPlaces);
+      console.log(`[Search] Nearby Search found ${nearbyPlaces.length} sports facilities`);
+    } catch (error) {
+      if (isAccessError(error)) throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`[Search] Nearby Search failed:`, message);
+      context?.warn({ code: 'query_failed', query: 'Nearby Search', message: `Nearby Search was skipped: ${message}` });
+    }
   }
 
   // Then perform text searches with different keywords
-  for (const keyword of keywords) {
+  for (const [index, keyword] of keywords.entries()) {
+    if (context?.usage.isBudgetExhausted()) {
+      context.usage.recordSkippedQuery(keywords.length - index);
+      console.log(`[Search] Budget reached, skipping ${keywords.length - index} remaining keyword queries`);
+      break;
+    }
+
     try {
       // Search with just the keyword - locationRestriction will handle the area
-      const query = `${keyword}`;
-      console.log(`[Search] Searching for: "${query}"`);
-
-      const places = await textSearch({
-        textQuery: query,
-        lat,
-        lng,
-        radiusMeters,
-        maxResultCount: Math.min(20, maxResults), // Google limits to 20 per request
-      });
+      console.log(`[Search] Searching for: "${keyword}"`);
 
-      // Add unique places
-      for (const place of places) {
-        if (!seenPlaceIds.has(place.id)) {
-          seenPlaceIds.add(place.id);
-          allPlaces.push(place);
-        }
-      }
+      const found = await textSearch(getTileTextSearchOptions(tile, keyword, maxResults, maxPages), context);
 
-      console.log(`[Search] Found ${places.length} results for "${keyword}"`);
+      addPlaces(found);
+      console.log(`[Search] Found ${found.length} results for "${keyword}"`);
 
       // Stop if we have enough results
-      if (allPlaces.length >= maxResults) {
+      if (places.length >= needed) {
         break;
       }
     } catch (error) {
-      console.warn(`[Search] Warning: Search for "${keyword}" failed:`, error instanceof Error ? error.message : error);
+      if (isAccessError(error)) throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`[Search] Warning: Search for "${keyword}" failed:`, message);
+      context?.warn({ code: 'query_failed', query: keyword, message: `Search for "${keyword}" was skipped: ${message}` });
       // Continue with other keywords
     }
   }
 
-  console.log(`[Search] Total unique places found: ${allPlaces.length}`);
-  
-  // Filter out non-turf results
-  const filteredPlaces = filterTurfResults(allPlaces);
-  console.log(`[Search] After filtering: ${filteredPlaces.length} turf results`);
-  
-  return filteredPlaces.slice(0, maxResults);
+  return places;
+}
+
+/**
+ * Key and project problems fail every request the same way, so a search stops at the first
+ */
+function isAccessError(error: unknown): boolean {
+  return error instanceof ApiNotEnabledError || error instanceof ApiKeyRejectedError || error instanceof ConfigurationError;
 }
 
 // ============================================================================
@@ -465,31 +782,39 @@ export async function searchTurfs(
 /**
  * Fetch detailed information for a specific place
  */
-export async function getPlaceDetails(placeId: string): Promise<PlaceDetailsResponse | null> {
-  const cacheKey = TtlCache.generateKey({ type: 'details', placeId });
+export async function getPlaceDetails(
+  placeId: string,
+  detailLevel: DetailLevel = DEFAULT_CONFIG.detailLevel,
+  context?: SearchContext
+): Promise<PlaceDetailsResponse | null> {
+  const fieldMask = PLACE_DETAILS_FIELD_MASKS[detailLevel];
+  const cacheKey = detailsCacheKey(placeId, detailLevel);
   const cached = detailsCache.get(cacheKey) as PlaceDetailsResponse | null;
   if (cached) {
+    context?.usage.recordCacheHit('Place Details');
     return cached;
   }
 
-  const url = `${PLACES_DETAILS_URL}/${placeId}`;
+  const url = `${getPlacesBaseUrl()}${PLACES_DETAILS_PATH}/${placeId}`;
 
   try {
-    const response = await fetch(url, {
+    const response = await fetchWithRetry(url, {
       method: 'GET',
       headers: {
         'X-Goog-Api-Key': getApiKey(),
-        'X-Goog-FieldMask': PLACE_DETAILS_FIELD_MASK,
+        'X-Goog-FieldMask': fieldMask,
       },
-    });
+    }, { api: 'Place Details', context });
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
-      console.warn(`[Details] Failed to fetch details for ${placeId}: ${response.status}`, errorData);
+      const error = parseGoogleError('Place Details', response.status, errorData);
+      console.warn(`[Details] Failed to fetch details for ${placeId}: ${error.message}${error.hint ? `. ${error.hint}` : ''}`);
       return null;
     }
 
     const data = (await response.json()) as PlaceDetailsResponse;
+    context?.usage.recordCall(getPlaceDetailsSku(fieldMask));
     detailsCache.set(cacheKey, data);
     return data;
   } catch (error) {
@@ -498,12 +823,31 @@ export async function getPlaceDetails(placeId: string): Promise<PlaceDetailsResp
   }
 }
 
+/**
+ * SKU billed for one request to a search API, or to Place Details at a detail level
+ */
+export function getRequestSku(
+  api: 'Nearby Search' | 'Text Search' | 'Place Details',
+  detailLevel: DetailLevel = DEFAULT_CONFIG.detailLevel
+): UsageSku {
+  switch (api) {
+    case 'Nearby Search':
+      return getSearchSku('nearby_search', NEARBY_SEARCH_FIELD_MASK);
+    case 'Text Search':
+      return getSearchSku('text_search', TEXT_SEARCH_FIELD_MASK);
+    case 'Place Details':
+      return getPlaceDetailsSku(PLACE_DETAILS_FIELD_MASKS[detailLevel]);
+  }
+}
+
 /**
  * Fetch details for multiple places with concurrency limit
  */
 export async function getPlaceDetailsBatch(
   placeIds: string[],
-  concurrencyLimit: number = DEFAULT_CONFIG.concurrencyLimit
+  concurrencyLimit: number = DEFAULT_CONFIG.concurrencyLimit,
+  detailLevel: DetailLevel = DEFAULT_CONFIG.detailLevel,
+  context?: SearchContext
 ): Promise<Map<string, PlaceDetailsResponse | null>> {
   const results = new Map<string, PlaceDetailsResponse | null>();
 
@@ -513,7 +857,7 @@ export async function getPlaceDetailsBatch(
 
   const tasks = placeIds.map((placeId) =>
     limit(async () => {
-      const details = await getPlaceDetails(placeId);
+      const details = await getPlaceDetails(placeId, detailLevel, context);
       results.set(placeId, details);
     })
   );
@@ -522,25 +866,251 @@ export async function getPlaceDetailsBatch(
   return results;
 }
 
+// ============================================================================
+// Distance Matrix API
+// ============================================================================
+
+/** Distance Matrix limits per request */
+export const MAX_MATRIX_ORIGINS = 25;
+export const MAX_MATRIX_DESTINATIONS = 25;
+export const MAX_MATRIX_ELEMENTS = 100;
+
+/**
+ * Destinations per Distance Matrix request for this many origins
+ */
+export function getMatrixBatchSize(originCount: number): number {
+  return Math.min(MAX_MATRIX_DESTINATIONS, Math.floor(MAX_MATRIX_ELEMENTS / Math.max(1, originCount)));
+}
+
+interface DistanceMatrixApiResponse {
+  status: string;
+  rows: Array<{
+    elements: Array<{
+      status: string;
+      distance?: { text: string; value: number };
+      duration?: { text: string; value: number };
+      /** Only for driving with a departure time */
+      duration_in_traffic?: { text: string; value: number };
+    }>;
+  }>;
+  error_message?: string;
+}
+
+/** Distance Matrix `mode` for each travel mode */
+const DISTANCE_MATRIX_MODES: Record<TravelMode, TravelMode> = {
+  driving: 'driving',
+  // No two-wheeler mode in Distance Matrix; driving is the closest
+  'two-wheeler': 'driving',
+  bicycling: 'bicycling',
+  walking: 'walking',
+  transit: 'transit',
+};
+
+/**
+ * The mode Distance Matrix times a travel mode with
+ */
+export function getDistanceMatrixMode(mode: TravelMode): TravelMode {
+  return DISTANCE_MATRIX_MODES[mode];
+}
+
+/**
+ * SKU billed per element; traffic-aware driving times are Distance Matrix Advanced
+ */
+export function getDistanceMatrixSku(options: TravelOptions): UsageSku {
+  return options.departureTime && getDistanceMatrixMode(options.mode) === 'driving' ? 'distance_matrix_advanced' : 'distance_matrix';
+}
+
+/** Element statuses passed through as they are; anything else is reported as REQUEST_FAILED */
+const TRAVEL_ELEMENT_STATUSES: TravelStatus[] = ['NOT_FOUND', 'ZERO_RESULTS', 'MAX_ROUTE_LENGTH_EXCEEDED'];
+
+/**
+ * Travel distance and time from every origin to every destination
+ * Destinations are split into as many requests as the per-request element limit needs
+ * (25 per request for a single origin). With a departure time, driving durations
+ * include expected traffic.
+ * @returns elements[origin][destination], with the status where there is no leg
+ */
+export async function getTravelMatrix(
+  origins: LatLng[],
+  destinations: LatLng[],
+  options: TravelOptions = { mode: 'driving' },
+  context?: SearchContext
+): Promise<TravelElement[][]> {
+  if (origins.length > MAX_MATRIX_ORIGINS) {
+    throw new ValidationError(`Distance Matrix accepts at most ${MAX_MATRIX_ORIGINS} origins`);
+  }
+
+  const elements = origins.map(() => destinations.map((): TravelElement => ({ status: 'REQUEST_FAILED' })));
+  const batchSize = getMatrixBatchSize(origins.length);
+
+  for (let start = 0; start < destinations.length; start += batchSize) {
+    const batch = destinations.slice(start, start + batchSize);
+    const params = new URLSearchParams({
+      origins: origins.map(formatWaypoint).join('|'),
+      destinations: batch.map(formatWaypoint).join('|'),
+      mode: getDistanceMatrixMode(options.mode),
+      key: getApiKey(),
+    });
+    if (options.departureTime) {
+      params.set('departure_time', toDepartureTimeParam(options.departureTime));
+    }
+
+    try {
+      const response = await fetchWithRetry(`${getDistanceMatrixUrl()}?${params.toString()}`, {}, {
+        api: 'Distance Matrix',
+        context,
+        retryBody: retryOverQueryLimit,
+      });
+      const data = (await response.json()) as DistanceMatrixApiResponse;
+
+      if (data.status !== 'OK') {
+        const error = parseGoogleError('Distance Matrix', response.status, data);
+        console.warn(`[Distance] ${error.message}${error.hint ? `. ${error.hint}` : ''}`);
+        // fetchWithRetry already recorded a batch that stayed rate limited through its retries
+        if (!retryOverQueryLimit(data)) {
+          context?.recordFailure({ api: 'Distance Matrix', attempts: 1, status: response.status, message: data.status });
+        }
+        continue;
+      }
+
+      context?.usage.recordCall(getDistanceMatrixSku(options), origins.length * batch.length);
+      data.rows.forEach((row, originIndex) => {
+        row.elements.forEach((element, index) => {
+          if (element.status === 'OK' && element.distance && element.duration) {
+            const duration = element.duration_in_traffic || element.duration;
+            elements[originIndex][start + index] = {
+              status: 'OK',
+              distanceMeters: element.distance.value,
+              durationSeconds: duration.value,
+              distanceText: element.distance.text,
+              durationText: duration.text,
+            };
+          } else if (TRAVEL_ELEMENT_STATUSES.includes(element.status as TravelStatus)) {
+            elements[originIndex][start + index] = { status: element.status as Exclude<TravelStatus, 'OK'> };
+          }
+        });
+      });
+    } catch (error) {
+      console.warn(`[Distance] Distance Matrix request failed:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return elements;
+}
+
+/**
+ * Like getTravelMatrix, with null wherever there is no leg
+ */
+export async function getTravelLegs(
+  origins: LatLng[],
+  destinations: LatLng[],
+  options: TravelOptions = { mode: 'driving' },
+  context?: SearchContext
+): Promise<Array<Array<TravelLeg | null>>> {
+  const elements = await getTravelMatrix(origins, destinations, options, context);
+  return elements.map((row) => row.map((element) => (element.status === 'OK' ? toTravelLeg(element) : null)));
+}
+
+function toTravelLeg({ distanceMeters, durationSeconds, distanceText, durationText }: TravelLeg): TravelLeg {
+  return { distanceMeters, durationSeconds, distanceText, durationText };
+}
+
+function formatWaypoint({ lat, lng }: LatLng): string {
+  return `${lat},${lng}`;
+}
+
+/**
+ * "now" or seconds since the epoch, as Distance Matrix expects
+ */
+function toDepartureTimeParam(departureTime: string): string {
+  return departureTime === 'now' ? 'now' : String(Math.floor(Date.parse(departureTime) / 1000));
+}
+
 // ============================================================================
 // Place Photos (New)
 // ============================================================================
 
+const PHOTO_PROXY_PATH = '/api/photo';
+
+/** Origin prepended to proxy URLs; empty keeps them relative to the web UI */
+let photoProxyBaseUrl = process.env.PHOTO_PROXY_BASE_URL || '';
+
+export function setPhotoProxyBaseUrl(baseUrl: string): void {
+  photoProxyBaseUrl = baseUrl.replace(/\/+$/, '');
+}
+
+/**
+ * Encode a photo resource name into the opaque reference used by the photo proxy
+ */
+export function encodePhotoRef(photoName: string): string {
+  return Buffer.from(photoName, 'utf-8').toString('base64url');
+}
+
+/**
+ * Decode a photo proxy reference back into a photo resource name
+ * @returns The resource name, or null if the reference isn't a Place photo
+ */
+export function decodePhotoRef(photoRef: string): string | null {
+  const photoName = Buffer.from(photoRef, 'base64url').toString('utf-8');
+  return /^places\/[\w-]+\/photos\/[\w-]+$/.test(photoName) ? photoName : null;
+}
+
 /**
  * Get a photo URL for a place photo resource
+ * Points at the server's photo proxy so the API key never reaches the browser
  * @param photoName - The photo resource name (e.g., "places/xxx/photos/yyy")
  * @param maxWidthPx - Maximum width in pixels
  * @param maxHeightPx - Maximum height in pixels
- * @returns Photo URL or null
+ * @returns Photo proxy URL
  */
 export function getPhotoUrl(
   photoName: string,
   maxWidthPx: number = 400,
   maxHeightPx: number = 400
 ): string {
-  // For Places API (New), we need to construct the media URL
-  const url = `${PLACES_PHOTO_URL}/${photoName}/media?maxWidthPx=${maxWidthPx}&maxHeightPx=${maxHeightPx}&key=${getApiKey()}`;
-  return url;
+  return `${photoProxyBaseUrl}${PHOTO_PROXY_PATH}/${encodePhotoRef(photoName)}?maxWidthPx=${maxWidthPx}&maxHeightPx=${maxHeightPx}`;
+}
+
+export interface PlacePhoto {
+  contentType: string;
+  data: Buffer;
+}
+
+/**
+ * Download a place photo from Place Photos (New)
+ */
+export async function fetchPlacePhoto(
+  photoName: string,
+  maxWidthPx: number,
+  maxHeightPx: number,
+  context?: SearchContext
+): Promise<PlacePhoto> {
+  const url = `${getPlacesBaseUrl()}${PLACES_PHOTO_PATH}/${photoName}/media?maxWidthPx=${maxWidthPx}&maxHeightPx=${maxHeightPx}`;
+
+  try {
+    // The media endpoint redirects to the image itself, which fetch follows
+    const response = await fetchWithRetry(url, {
+      method: 'GET',
+      headers: {
+        'X-Goog-Api-Key': getApiKey(),
+      },
+    }, { api: 'Place Photos', context });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw parseGoogleError('Place Photos', response.status, errorData, response.headers.get('retry-after'));
+    }
+
+    context?.usage.recordCall('place_photos');
+
+    return {
+      contentType: (response.headers.get('content-type') || 'image/jpeg').split(';')[0].trim(),
+      data: Buffer.from(await response.arrayBuffer()),
+    };
+  } catch (error) {
+    if (error instanceof TurfFinderError) throw error;
+    throw new GoogleApiError(`Photo request failed: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
+  }
 }
 
 /**
@@ -571,11 +1141,24 @@ export function isApiKeyConfigured(): boolean {
   return !!apiKey;
 }
 
+function detailsCacheKey(placeId: string, detailLevel: DetailLevel): string {
+  return TtlCache.generateKey({ type: 'details', placeId, detailLevel });
+}
+
 /**
  * Clear all caches
  */
 export function clearCaches(): void {
-  geocodeCache.clear();
-  searchCache.clear();
-  detailsCache.clear();
+  allCaches.forEach((cache) => cache.clear());
+}
+
+/**
+ * Forget a place's cached details at every detail level, e.g. after its listing changed
+ * Whole search outputs embed details too, so the result cache is cleared as well.
+ * @returns The number of details entries removed
+ */
+export function invalidatePlace(placeId: string): number {
+  const removed = DETAIL_LEVELS.filter((detailLevel) => detailsCache.delete(detailsCacheKey(placeId, detailLevel))).length;
+  resultCache.clear();
+  return removed;
 }
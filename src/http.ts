@@ -0,0 +1,149 @@
+/**
+ * HTTP helpers for Google API calls
+ * Adds per-attempt timeouts and retries with exponential backoff, jitter and Retry-After support
+ */
+
+import { RetryPolicy, DEFAULT_RETRY_POLICY } from './types';
+import { SearchContext } from './context';
+import { getActiveCassette } from './cassette';
+
+export interface FetchWithRetryOptions {
+  /** Google API name used in retry and failure records (e.g. "Text Search") */
+  api: string;
+  /** Overrides the context's retry policy */
+  policy?: RetryPolicy;
+  context?: SearchContext;
+  /**
+   * Reason to retry an OK response, read from its JSON body; for the legacy APIs,
+   * which report rate limiting as HTTP 200 with status OVER_QUERY_LIMIT
+   */
+  retryBody?: (body: unknown) => string | null;
+}
+
+/**
+ * Fetch with timeout and retry
+ *
+ * Retries network errors, timeouts, the statuses listed in the policy and OK
+ * responses whose body `retryBody` flags. Once
+ * attempts run out the last response is returned (or the last error rethrown)
+ * so callers keep their own error handling for non-OK responses.
+ *
+ * With a cassette active, the returned response is recorded, or in replay mode
+ * served from the cassette without a network request.
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  options: FetchWithRetryOptions
+): Promise<Response> {
+  const { api, context } = options;
+  const policy = options.policy ?? context?.retryPolicy ?? DEFAULT_RETRY_POLICY;
+  const maxAttempts = policy.maxRetries + 1;
+  const cassette = getActiveCassette();
+
+  if (cassette?.mode === 'replay') {
+    return cassette.replay(url, init);
+  }
+
+  const finish = (response: Response) => (cassette?.mode === 'record' ? cassette.record(url, init, response) : response);
+
+  for (let attempt = 1; ; attempt++) {
+    let response: Response | null = null;
+    let error: unknown = null;
+
+    try {
+      response = await fetch(url, { ...init, signal: AbortSignal.timeout(policy.timeoutMs) });
+    } catch (err) {
+      error = err;
+    }
+
+    const bodyReason = response?.ok && options.retryBody ? await readRetryReason(response, options.retryBody) : null;
+
+    if (response && !bodyReason && (response.ok || !policy.retryStatuses.includes(response.status))) {
+      if (!response.ok) {
+        context?.recordFailure({ api, attempts: attempt, status: response.status, message: response.statusText });
+      }
+      return finish(response);
+    }
+
+    const message = error ? describeFetchError(error, policy.timeoutMs) : bodyReason ?? undefined;
+
+    if (attempt >= maxAttempts) {
+      context?.recordFailure({
+        api,
+        attempts: attempt,
+        status: response?.status,
+        message: message ?? response?.statusText ?? 'Request failed',
+      });
+      if (response) {
+        return finish(response);
+      }
+      throw new Error(message);
+    }
+
+    const delayMs = getRetryDelay(attempt, policy, response);
+    context?.recordRetry({ api, attempt, status: response?.status, error: message, delayMs });
+    console.warn(
+      `[Retry] ${api} attempt ${attempt}/${maxAttempts} failed (${bodyReason ?? response?.status ?? message}), retrying in ${delayMs}ms`
+    );
+    await sleep(delayMs);
+  }
+}
+
+/**
+ * Ask retryBody about a copy of the response, leaving the body unread for the caller
+ * A body that isn't JSON is never retried.
+ */
+async function readRetryReason(response: Response, retryBody: (body: unknown) => string | null): Promise<string | null> {
+  try {
+    return retryBody(await response.clone().json());
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Delay before the next attempt: Retry-After when the server sends one,
+ * otherwise exponential backoff with full jitter
+ */
+function getRetryDelay(attempt: number, policy: RetryPolicy, response: Response | null): number {
+  const retryAfterMs = response ? parseRetryAfter(response.headers.get('retry-after')) : null;
+  if (retryAfterMs !== null) {
+    return Math.min(retryAfterMs, policy.maxDelayMs);
+  }
+
+  const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * backoff);
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return null;
+}
+
+function describeFetchError(error: unknown, timeoutMs: number): string {
+  if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+    return `Timed out after ${timeoutMs}ms`;
+  }
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
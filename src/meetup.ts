@@ -0,0 +1,257 @@
+/**
+ * Meet-in-the-middle search
+ * Finds turfs around the midpoint of several players' locations and ranks them by
+ * the worst-off player's distance or the total distance (optionally driving time)
+ */
+
+import {
+  Config,
+  LatLng,
+  MeetupOrigin,
+  MeetupOutput,
+  MeetupPlayerDistance,
+  MeetupRanking,
+  MeetupRequest,
+  MeetupResult,
+  NearbySearchPlace,
+  ValidationError,
+} from './types';
+import { geocodeLocation, getPlaceDetailsBatch, getTravelLegs, searchTurfs } from './google';
+import { haversineDistance, roundDistance } from './distance';
+import { findCityForPoint, findCityInText, getCityGeocodeOptions, getCitySportProfile } from './cities';
+import { getSportProfile, DEFAULT_SPORT } from './profiles';
+import { SearchContext } from './context';
+import { buildTurfResult } from './finder';
+import { validateMeetupRequest } from './validation';
+
+/** Each player is a Distance Matrix origin, so more players means fewer destinations per request */
+const MIN_MEETUP_ORIGINS = 2;
+const MAX_MEETUP_ORIGINS = 10;
+
+interface ResolvedOrigin {
+  name: string;
+  lat: number;
+  lng: number;
+  location?: string;
+  formattedAddress?: string;
+}
+
+interface Candidate {
+  place: NearbySearchPlace;
+  location: LatLng;
+  players: MeetupPlayerDistance[];
+}
+
+/**
+ * Parse a CLI-style origin: "12.91,77.64", "HSR Layout" or "Asha=HSR Layout"
+ */
+export function parseMeetupOrigin(text: string): MeetupOrigin {
+  const separator = text.indexOf('=');
+  const name = separator > 0 ? text.slice(0, separator).trim() : undefined;
+  const value = (separator > 0 ? text.slice(separator + 1) : text).trim();
+
+  const coords = value.split(',').map((part) => part.trim());
+  if (coords.length === 2 && coords.every((part) => part !== '' && Number.isFinite(Number(part)))) {
+    return { name, lat: Number(coords[0]), lng: Number(coords[1]) };
+  }
+  return { name, location: value };
+}
+
+/**
+ * Run a meetup search: geocode the players, search around their midpoint and rank
+ */
+export async function findMeetupTurfs(input: MeetupRequest, config: Config): Promise<MeetupOutput> {
+  const request = validateMeetupRequest(input);
+  const {
+    rankBy = 'max',
+    travelTime = false,
+    sport = DEFAULT_SPORT,
+    keyword,
+    maxResults = config.maxResults,
+    detailsLimit = config.detailsLimit,
+    detailLevel = config.detailLevel,
+    minConfidence = config.minConfidence,
+    budgetUsd = config.budgetUsd ?? undefined,
+  } = request;
+  const origins = validateOrigins(request.origins);
+  const profile = getSportProfile(sport);
+
+  const context = new SearchContext({ retryPolicy: config.retry, budgetUsd: budgetUsd ?? null });
+  const players = await resolveOrigins(origins, context);
+
+  const center = getMidpoint(players);
+  const city = findCityForPoint(center.lat, center.lng);
+  const radiusKm = request.radiusKm ?? city?.defaultRadiusKm ?? config.defaultRadiusKm;
+  console.log(`[Meetup] Searching ${radiusKm} km around the midpoint of ${players.length} players`);
+
+  const { places, classifications } = await searchTurfs(center.lat, center.lng, radiusKm, keyword || undefined, maxResults, {
+    maxPages: config.maxPagesPerQuery,
+    tileRadiusKm: config.tileRadiusKm,
+    maxTiles: config.maxTiles,
+    profile: getCitySportProfile(profile.name, city?.id ?? null),
+    minConfidence,
+    context,
+  });
+
+  // Straight-line distances first; they decide which places are worth a Distance Matrix call
+  const candidates = places
+    .flatMap((place): Candidate[] => {
+      const { latitude, longitude } = place.location || {};
+      if (latitude === undefined || longitude === undefined) {
+        return [];
+      }
+      const location = { lat: latitude, lng: longitude };
+      if (haversineDistance(center, location) > radiusKm) {
+        return [];
+      }
+      const distances = players.map((player) => ({
+        name: player.name,
+        distanceKm: roundDistance(haversineDistance(player, location)),
+        travelSeconds: null,
+      }));
+      return [{ place, location, players: distances }];
+    })
+    .sort((a, b) => compareCandidates(a, b, rankBy, false));
+
+  const shortlist = candidates.slice(0, detailsLimit);
+  if (travelTime && shortlist.length > 0) {
+    const legs = await getTravelLegs(players, shortlist.map((c) => c.location), { mode: 'driving' }, context);
+    shortlist.forEach((candidate, index) => {
+      candidate.players.forEach((player, playerIndex) => {
+        player.travelSeconds = legs[playerIndex][index]?.durationSeconds ?? null;
+      });
+    });
+    shortlist.sort((a, b) => compareCandidates(a, b, rankBy, true));
+  }
+
+  const detailsMap = await getPlaceDetailsBatch(
+    shortlist.map((c) => c.place.id),
+    config.concurrencyLimit,
+    detailLevel,
+    context
+  );
+  const confidenceById = new Map(classifications.map((c) => [c.placeId, c.confidence]));
+
+  const results: MeetupResult[] = shortlist.map(({ place, location, players: distances }) => {
+    const travel = distances.map((d) => d.travelSeconds);
+    const hasTravel = travel.every((seconds) => seconds !== null);
+    return {
+      ...buildTurfResult(
+        place,
+        detailsMap.get(place.id) || null,
+        roundDistance(haversineDistance(center, location)),
+        confidenceById.get(place.id),
+        detailLevel
+      ),
+      players: distances,
+      maxDistanceKm: score(distances.map((d) => d.distanceKm), 'max'),
+      totalDistanceKm: roundDistance(score(distances.map((d) => d.distanceKm), 'total')),
+      maxTravelSeconds: hasTravel ? score(travel as number[], 'max') : null,
+      totalTravelSeconds: hasTravel ? score(travel as number[], 'total') : null,
+    };
+  });
+
+  const output: MeetupOutput = {
+    query: {
+      origins: players,
+      center: { lat: roundCoordinate(center.lat), lng: roundCoordinate(center.lng) },
+      radiusKm,
+      rankBy,
+      travelTime,
+      sport: profile.name,
+      keyword: keyword || null,
+      detailLevel,
+      city: city ? { id: city.id, name: city.name } : null,
+    },
+    generatedAt: new Date().toISOString(),
+    totalFound: candidates.length,
+    results,
+    diagnostics: context.toDiagnostics(),
+    usage: context.usage.toReport(),
+  };
+
+  if (results.length === 0) {
+    output.message = 'No turfs found around the midpoint. Try increasing the radius.';
+  }
+
+  return output;
+}
+
+function validateOrigins(origins: MeetupRequest['origins']): MeetupOrigin[] {
+  if (!Array.isArray(origins) || origins.length < MIN_MEETUP_ORIGINS || origins.length > MAX_MEETUP_ORIGINS) {
+    throw new ValidationError(`origins must list between ${MIN_MEETUP_ORIGINS} and ${MAX_MEETUP_ORIGINS} players`);
+  }
+
+  return origins.map((origin, index) => {
+    const parsed = typeof origin === 'string' ? parseMeetupOrigin(origin) : origin;
+    const hasCoords = parsed?.lat !== undefined || parsed?.lng !== undefined;
+
+    if (hasCoords && !(isCoordinate(parsed.lat, 90) && isCoordinate(parsed.lng, 180))) {
+      throw new ValidationError(`Origin ${index + 1} needs a valid lat and lng`);
+    }
+
+    if (!hasCoords && !parsed?.location) {
+      throw new ValidationError(`Origin ${index + 1} needs a location or lat and lng`);
+    }
+
+    return { ...parsed, name: parsed.name || `Player ${index + 1}` };
+  });
+}
+
+function isCoordinate(value: unknown, limit: number): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= limit;
+}
+
+/**
+ * Geocode the origins given as addresses, biased to the city each one names
+ */
+async function resolveOrigins(origins: MeetupOrigin[], context: SearchContext): Promise<ResolvedOrigin[]> {
+  return Promise.all(
+    origins.map(async ({ name, location, lat, lng }) => {
+      if (lat !== undefined && lng !== undefined) {
+        return { name: name as string, lat, lng, location };
+      }
+
+      const city = findCityInText(location as string);
+      const geocode = await geocodeLocation(location as string, getCityGeocodeOptions(city?.id ?? null), context);
+      return { name: name as string, lat: geocode.lat, lng: geocode.lng, location, formattedAddress: geocode.formattedAddress };
+    })
+  );
+}
+
+/**
+ * Mean of the players' coordinates (fine at city scale)
+ */
+function getMidpoint(points: LatLng[]): LatLng {
+  return {
+    lat: points.reduce((sum, p) => sum + p.lat, 0) / points.length,
+    lng: points.reduce((sum, p) => sum + p.lng, 0) / points.length,
+  };
+}
+
+function score(values: number[], rankBy: MeetupRanking): number {
+  return rankBy === 'max' ? Math.max(...values) : values.reduce((sum, value) => sum + value, 0);
+}
+
+/**
+ * Order by travel time where every player has one (places without come last), then by distance
+ */
+function compareCandidates(a: Candidate, b: Candidate, rankBy: MeetupRanking, byTravel: boolean): number {
+  if (byTravel) {
+    const travelScore = (c: Candidate) =>
+      c.players.every((p) => p.travelSeconds !== null)
+        ? score(c.players.map((p) => p.travelSeconds as number), rankBy)
+        : Infinity;
+    const difference = travelScore(a) - travelScore(b);
+    if (difference !== 0 && !Number.isNaN(difference)) {
+      return difference;
+    }
+  }
+  return (
+    score(a.players.map((p) => p.distanceKm), rankBy) - score(b.players.map((p) => p.distanceKm), rankBy)
+  );
+}
+
+function roundCoordinate(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
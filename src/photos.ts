@@ -0,0 +1,214 @@
+/**
+ * Place photo proxy
+ * Fetches Place Photos on the server and keeps a size-bounded on-disk cache,
+ * shared by the Express route and the Vercel function
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { ServerResponse } from 'http';
+
+import { TurfFinderError, ValidationError } from './types';
+import { decodePhotoRef, fetchPlacePhoto } from './google';
+import { toErrorResponse } from './errors';
+import { SearchContext } from './context';
+
+/** Place Photos (New) accepts dimensions from 1 to 4800 px */
+const MAX_PHOTO_PX = 4800;
+const DEFAULT_PHOTO_PX = 400;
+
+/** Browsers may keep a photo for a day; the reference never changes content */
+export const PHOTO_CACHE_CONTROL = 'public, max-age=86400';
+
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+export interface CachedPhoto {
+  filePath: string;
+  contentType: string;
+  size: number;
+  /** Whether the photo was served from the disk cache */
+  cacheHit: boolean;
+  /** The downloaded bytes on a cache miss, so they are sent without reading the file back */
+  data: Buffer | null;
+}
+
+/**
+ * Least-recently-used photo store on disk
+ * Reads refresh a file's mtime, and the oldest files are evicted once the total
+ * size exceeds maxBytes.
+ */
+export class PhotoCache {
+  constructor(
+    private readonly dir: string,
+    private readonly maxBytes: number
+  ) {}
+
+  get(key: string): CachedPhoto | null {
+    for (const [contentType, ext] of Object.entries(CONTENT_TYPE_EXTENSIONS)) {
+      const filePath = path.join(this.dir, `${key}.${ext}`);
+      try {
+        const stat = fs.statSync(filePath);
+        const now = new Date();
+        fs.utimesSync(filePath, now, now);
+        return { filePath, contentType, size: stat.size, cacheHit: true, data: null };
+      } catch {
+        // Not cached with this extension
+      }
+    }
+    return null;
+  }
+
+  set(key: string, contentType: string, data: Buffer): CachedPhoto {
+    fs.mkdirSync(this.dir, { recursive: true });
+    const storedType = contentType in CONTENT_TYPE_EXTENSIONS ? contentType : 'image/jpeg';
+    const filePath = path.join(this.dir, `${key}.${CONTENT_TYPE_EXTENSIONS[storedType]}`);
+    fs.writeFileSync(filePath, data);
+    this.evict(filePath);
+    return { filePath, contentType: storedType, size: data.length, cacheHit: false, data };
+  }
+
+  /**
+   * Delete the least recently used files until the cache is back under its limit
+   * @param keepPath - A file that is never evicted, e.g. the one just written
+   */
+  evict(keepPath?: string): number {
+    const files = this.listFiles();
+    let totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+    let evicted = 0;
+
+    for (const file of files.sort((a, b) => a.mtimeMs - b.mtimeMs)) {
+      if (totalBytes <= this.maxBytes) {
+        break;
+      }
+      if (file.filePath === keepPath) {
+        continue;
+      }
+      fs.rmSync(file.filePath, { force: true });
+      totalBytes -= file.size;
+      evicted++;
+    }
+
+    return evicted;
+  }
+
+  stats(): { files: number; bytes: number; maxBytes: number } {
+    const files = this.listFiles();
+    return {
+      files: files.length,
+      bytes: files.reduce((sum, file) => sum + file.size, 0),
+      maxBytes: this.maxBytes,
+    };
+  }
+
+  private listFiles(): Array<{ filePath: string; size: number; mtimeMs: number }> {
+    let names: string[];
+    try {
+      names = fs.readdirSync(this.dir);
+    } catch {
+      return [];
+    }
+
+    return names.flatMap((name) => {
+      const filePath = path.join(this.dir, name);
+      try {
+        const stat = fs.statSync(filePath);
+        return stat.isFile() ? [{ filePath, size: stat.size, mtimeMs: stat.mtimeMs }] : [];
+      } catch {
+        return [];
+      }
+    });
+  }
+}
+
+export const photoCache = new PhotoCache(
+  process.env.PHOTO_CACHE_DIR || path.join(os.tmpdir(), 'turf-finder-photos'),
+  (Number(process.env.PHOTO_CACHE_MAX_MB) || 100) * 1024 * 1024
+);
+
+/**
+ * Resolve a proxy request to a photo file, downloading it from Google on a cache miss
+ * @param photoRef - Reference from a proxy URL (see getPhotoUrl)
+ */
+export async function getProxiedPhoto(
+  photoRef: string,
+  maxWidthPx: unknown,
+  maxHeightPx: unknown,
+  context?: SearchContext
+): Promise<CachedPhoto> {
+  const photoName = decodePhotoRef(photoRef);
+  if (!photoName) {
+    throw new ValidationError('Invalid photo reference');
+  }
+
+  const width = parsePhotoDimension(maxWidthPx, 'maxWidthPx');
+  const height = parsePhotoDimension(maxHeightPx, 'maxHeightPx');
+
+  const key = crypto.createHash('sha256').update(`${photoName}|${width}x${height}`).digest('hex');
+  const cached = photoCache.get(key);
+  if (cached) {
+    context?.usage.recordCacheHit('Place Photos');
+    return cached;
+  }
+
+  const photo = await fetchPlacePhoto(photoName, width, height, context);
+  return photoCache.set(key, photo.contentType, photo.data);
+}
+
+/**
+ * Send a proxied photo with its caching headers
+ * A cache hit is streamed from disk; if the file was evicted in the meantime the
+ * response is a 404 instead of an unhandled stream error.
+ */
+export function sendPhoto(res: ServerResponse, photo: CachedPhoto): void {
+  res.setHeader('Content-Type', photo.contentType);
+  res.setHeader('Content-Length', photo.size);
+  res.setHeader('Cache-Control', PHOTO_CACHE_CONTROL);
+  res.setHeader('X-Photo-Cache', photo.cacheHit ? 'HIT' : 'MISS');
+
+  if (photo.data) {
+    res.end(photo.data);
+    return;
+  }
+
+  const stream = fs.createReadStream(photo.filePath);
+  stream.on('error', (error: NodeJS.ErrnoException) => {
+    if (res.headersSent) {
+      res.destroy(error);
+      return;
+    }
+
+    const failure = error.code === 'ENOENT'
+      ? new TurfFinderError('The photo was removed from the cache before it could be sent; try again', 'NOT_FOUND')
+      : error;
+    const { status, body } = toErrorResponse(failure, 'Failed to read photo');
+    if (status >= 429) {
+      console.error('[Photos] Failed to read a cached photo:', error);
+    }
+    for (const header of ['Content-Length', 'Cache-Control', 'X-Photo-Cache']) {
+      res.removeHeader(header);
+    }
+    res.statusCode = status;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(body));
+  });
+  stream.pipe(res);
+}
+
+function parsePhotoDimension(value: unknown, name: string): number {
+  if (value === undefined || value === '') {
+    return DEFAULT_PHOTO_PX;
+  }
+
+  const px = Number(value);
+  if (!Number.isInteger(px) || px < 1 || px > MAX_PHOTO_PX) {
+    throw new ValidationError(`${name} must be an integer between 1 and ${MAX_PHOTO_PX}`);
+  }
+  return px;
+}
@@ -0,0 +1,135 @@
+/**
+ * Dry-run search planner
+ * Walks the same plan as searchTurfs and prices it from the usage SKU table,
+ * checking the caches instead of calling Google
+ */
+
+import { Config, PlannedApi, SearchPlan, SearchQuery } from './types';
+import {
+  buildTurfSearchPlan,
+  getRequestSku,
+  getDistanceMatrixSku,
+  getMatrixBatchSize,
+  getTileNearbySearchOptions,
+  getTileTextSearchOptions,
+  isNearbySearchCached,
+  isTextSearchCached,
+  TEXT_SEARCH_MAX_RESULTS,
+  TEXT_SEARCH_PAGE_SIZE,
+} from './google';
+import { getCitySportProfile } from './cities';
+import { getSearchCircle } from './areas';
+import { UsageTracker } from './usage';
+
+/**
+ * How the search location gets its coordinates
+ * - not_needed: the request had coordinates
+ * - cached: the geocode result is in the cache
+ * - required: a Geocoding call is needed, so the coordinates are unknown
+ */
+export type GeocodeState = 'not_needed' | 'cached' | 'required';
+
+/** The plan without the request echo, which TurfFinder.plan adds */
+export type SearchEstimate = Omit<SearchPlan, 'dryRun' | 'query'>;
+
+/**
+ * Estimate the Google calls a search would make
+ * Counts are upper bounds: a real search stops early once it has enough places,
+ * and a keyword may run out of pages before the page cap.
+ */
+export function planSearch(query: SearchQuery, config: Config, geocode: GeocodeState): SearchEstimate {
+  const usage = new UsageTracker(query.budgetUsd);
+  const calls: Record<PlannedApi, number> = {
+    Geocoding: 0,
+    'Nearby Search': 0,
+    'Text Search': 0,
+    'Place Details': 0,
+    'Distance Matrix': 0,
+  };
+  const notes: string[] = [];
+
+  if (geocode === 'required') {
+    calls.Geocoding++;
+    usage.recordCall('geocoding');
+    if (!query.area) {
+      notes.push('Location is not geocoded yet, so search queries are assumed not to be cached');
+    }
+  } else if (geocode === 'cached') {
+    usage.recordCacheHit('Geocoding');
+  }
+
+  const { center, radiusKm } = getSearchCircle(query);
+  const { keywords, includedTypes, tiles } = buildTurfSearchPlan(center.lat, center.lng, radiusKm, query.keyword, {
+    tiled: query.tiled,
+    tileRadiusKm: query.tileRadiusKm,
+    maxTiles: config.maxTiles,
+    profile: getCitySportProfile(query.sport, query.city),
+  });
+  // An area fixes where to search even before its reference point is geocoded
+  const checkCache = geocode !== 'required' || query.area !== null;
+  // Google stops paging at TEXT_SEARCH_MAX_RESULTS whatever maxResults asks for
+  const pagesPerQuery = Math.min(
+    query.maxPages,
+    Math.ceil(Math.min(query.maxResults, TEXT_SEARCH_MAX_RESULTS) / TEXT_SEARCH_PAGE_SIZE)
+  );
+
+  // Mirrors searchTurfs/searchTile, including where the budget cap is checked
+  for (const [tileIndex, tile] of tiles.entries()) {
+    if (usage.isBudgetExhausted()) {
+      usage.recordSkippedQuery((tiles.length - tileIndex) * keywords.length);
+      break;
+    }
+
+    if (includedTypes.length > 0) {
+      if (checkCache && isNearbySearchCached(getTileNearbySearchOptions(tile, includedTypes, query.maxResults))) {
+        usage.recordCacheHit('Nearby Search');
+      } else {
+        calls['Nearby Search']++;
+        usage.recordCall(getRequestSku('Nearby Search'));
+      }
+    }
+
+    for (const [index, keyword] of keywords.entries()) {
+      if (usage.isBudgetExhausted()) {
+        usage.recordSkippedQuery(keywords.length - index);
+        break;
+      }
+
+      const options = getTileTextSearchOptions(tile, keyword, query.maxResults, query.maxPages);
+      if (checkCache && isTextSearchCached(options)) {
+        usage.recordCacheHit('Text Search');
+      } else {
+        calls['Text Search'] += pagesPerQuery;
+        usage.recordCall(getRequestSku('Text Search'), pagesPerQuery);
+      }
+    }
+  }
+
+  const details = Math.min(query.detailsLimit, query.maxResults);
+  if (details > 0) {
+    calls['Place Details'] += details;
+    usage.recordCall(getRequestSku('Place Details', query.detailLevel), details);
+    notes.push(`Place Details assumes ${details} place(s) are found and none are cached`);
+  }
+
+  if (query.travel) {
+    // One origin, so each request carries as many destinations as Distance Matrix allows
+    calls['Distance Matrix'] += Math.ceil(query.maxResults / getMatrixBatchSize(1));
+    usage.recordCall(getDistanceMatrixSku(query.travel), query.maxResults);
+    notes.push(`Distance Matrix assumes ${query.maxResults} place(s) are found, one element each`);
+  }
+
+  if (pagesPerQuery > 1) {
+    notes.push(`Text Search assumes every keyword fills ${pagesPerQuery} pages`);
+  }
+  notes.push('A real search stops running keywords once it has maxResults places, so it usually costs less');
+
+  return {
+    geocodeRequired: geocode === 'required',
+    tiles: tiles.length,
+    keywords,
+    calls,
+    estimate: usage.toReport(),
+    notes,
+  };
+}
@@ -0,0 +1,220 @@
+/**
+ * Sport profiles
+ * Each profile defines the search terms, Google place types and exclusion rules for one sport
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { SportProfile, ValidationError } from './types';
+
+export const DEFAULT_SPORT = 'any';
+
+// Non-turf activities excluded for every profile
+const BASE_EXCLUDE_KEYWORDS = [
+  'bowling',
+  'bowl',
+  'arcade',
+  'gaming zone',
+  'game zone',
+  'virtual reality',
+  'vr arena',
+  'laser tag',
+  'escape room',
+  'trampoline',
+  'go kart',
+  'karting',
+  'billiard',
+  'pool table',
+  'snooker',
+  'paintball',
+  'shooting range',
+  'ice skating',
+  'roller skating',
+  'spa',
+  'salon',
+  'restaurant',
+  'cafe',
+  'bar',
+  'pub',
+  'lounge',
+];
+
+const BASE_EXCLUDE_TYPES = [
+  'bowling_alley',
+  'amusement_center',
+  'movie_theater',
+  'night_club',
+  'casino',
+  'bar',
+  'restaurant',
+  'cafe',
+];
+
+const BUILT_IN_PROFILES: SportProfile[] = [
+  {
+    name: 'any',
+    label: 'All Turfs',
+    keywords: [
+      'turf',
+      'football turf',
+      'box cricket',
+      'turf ground',
+      'sports turf',
+      'cricket ground',
+      'football ground',
+      'futsal',
+      'five a side football',
+      'seven a side football',
+    ],
+    includedTypes: ['sports_club', 'sports_complex', 'stadium', 'gym'],
+    positiveKeywords: ['turf', 'football', 'futsal', 'cricket', 'box cricket', 'five a side', 'seven a side'],
+    excludeKeywords: BASE_EXCLUDE_KEYWORDS,
+    excludeTypes: BASE_EXCLUDE_TYPES,
+  },
+  {
+    name: 'football',
+    label: 'Football',
+    keywords: [
+      'football turf',
+      'futsal',
+      'five a side football',
+      'seven a side football',
+      'football ground',
+      'turf',
+    ],
+    includedTypes: ['sports_club', 'sports_complex', 'stadium'],
+    positiveKeywords: ['football', 'futsal', 'soccer', 'turf', 'fc', 'five a side', 'seven a side', '5 a side', '7 a side'],
+    excludeKeywords: [...BASE_EXCLUDE_KEYWORDS, 'yoga', 'swimming pool'],
+    excludeTypes: [...BASE_EXCLUDE_TYPES, 'gym'],
+  },
+  {
+    name: 'cricket',
+    label: 'Box Cricket',
+    keywords: ['box cricket', 'cricket turf', 'cricket nets', 'cricket ground', 'turf'],
+    includedTypes: ['sports_club', 'sports_complex', 'stadium'],
+    positiveKeywords: ['cricket', 'box cricket', 'nets', 'turf'],
+    excludeKeywords: [...BASE_EXCLUDE_KEYWORDS, 'yoga', 'swimming pool'],
+    excludeTypes: [...BASE_EXCLUDE_TYPES, 'gym'],
+  },
+  {
+    name: 'badminton',
+    label: 'Badminton',
+    keywords: ['badminton court', 'indoor badminton', 'badminton academy', 'shuttle court'],
+    includedTypes: ['sports_club', 'sports_complex'],
+    positiveKeywords: ['badminton', 'shuttle', 'shuttlecock'],
+    excludeKeywords: [...BASE_EXCLUDE_KEYWORDS, 'golf'],
+    excludeTypes: BASE_EXCLUDE_TYPES,
+  },
+  {
+    name: 'pickleball',
+    label: 'Pickleball',
+    keywords: ['pickleball court', 'pickleball', 'pickleball club'],
+    includedTypes: ['sports_club', 'sports_complex'],
+    positiveKeywords: ['pickleball', 'paddle'],
+    excludeKeywords: [...BASE_EXCLUDE_KEYWORDS, 'golf'],
+    excludeTypes: BASE_EXCLUDE_TYPES,
+  },
+];
+
+const profiles = new Map<string, SportProfile>(
+  BUILT_IN_PROFILES.map((profile) => [profile.name, profile])
+);
+
+/**
+ * Look up a profile by name
+ */
+export function getSportProfile(name: string = DEFAULT_SPORT): SportProfile {
+  const profile = profiles.get(name.toLowerCase());
+  if (!profile) {
+    throw new ValidationError(
+      `Unknown sport "${name}". Available sports: ${listSportProfiles().map((p) => p.name).join(', ')}`
+    );
+  }
+  return profile;
+}
+
+export function listSportProfiles(): SportProfile[] {
+  return [...profiles.values()];
+}
+
+// Search-term words too vague to count as evidence that a place fits the profile
+const NON_SIGNAL_WORDS = ['a', 'an', 'the', 'and', 'of', 'near', 'me', 'ground', 'court', 'club', 'academy', 'indoor', 'outdoor'];
+
+/**
+ * Add or replace a profile; omitted exclusion rules fall back to the base lists
+ * and omitted positive keywords are derived from the search keywords
+ */
+export function registerSportProfile(input: Partial<SportProfile> & { name: string; keywords: string[] }): SportProfile {
+  const profile: SportProfile = {
+    name: input.name.toLowerCase(),
+    label: input.label || input.name,
+    keywords: input.keywords,
+    includedTypes: input.includedTypes || [],
+    positiveKeywords: input.positiveKeywords || deriveSignalKeywords(input.keywords),
+    excludeKeywords: input.excludeKeywords || BASE_EXCLUDE_KEYWORDS,
+    excludeTypes: input.excludeTypes || BASE_EXCLUDE_TYPES,
+  };
+  profiles.set(profile.name, profile);
+  return profile;
+}
+
+/**
+ * Load custom profiles from a JSON config file
+ *
+ * Expected shape:
+ *   { "profiles": [{ "name": "tennis", "label": "Tennis", "keywords": ["tennis court"] }] }
+ */
+export function loadSportProfilesFile(filePath: string): SportProfile[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new ValidationError(
+      `Could not read sport profiles from ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+
+  const entries = (parsed as { profiles?: unknown })?.profiles;
+  if (!Array.isArray(entries)) {
+    throw new ValidationError(`${filePath} must contain a "profiles" array`);
+  }
+
+  return entries.map((entry, index) => {
+    const candidate = entry as Partial<SportProfile>;
+    if (typeof candidate.name !== 'string' || !candidate.name.trim()) {
+      throw new ValidationError(`Profile #${index + 1} in ${filePath} needs a "name"`);
+    }
+    if (!isStringArray(candidate.keywords) || candidate.keywords.length === 0) {
+      throw new ValidationError(`Profile "${candidate.name}" needs a non-empty "keywords" array`);
+    }
+    for (const field of ['includedTypes', 'positiveKeywords', 'excludeKeywords', 'excludeTypes'] as const) {
+      if (candidate[field] !== undefined && !isStringArray(candidate[field])) {
+        throw new ValidationError(`Profile "${candidate.name}" field "${field}" must be an array of strings`);
+      }
+    }
+    return registerSportProfile({ ...candidate, name: candidate.name.trim(), keywords: candidate.keywords });
+  });
+}
+
+let envProfilesLoaded = false;
+
+/**
+ * Load custom profiles from the file named by TURF_PROFILES_FILE, once per process
+ */
+export function loadSportProfilesFromEnv(): void {
+  const filePath = process.env.TURF_PROFILES_FILE;
+  if (envProfilesLoaded || !filePath) {
+    return;
+  }
+  envProfilesLoaded = true;
+  loadSportProfilesFile(path.resolve(filePath));
+}
+
+function deriveSignalKeywords(keywords: string[]): string[] {
+  const words = keywords.flatMap((keyword) => keyword.toLowerCase().split(/[^a-z0-9]+/));
+  return [...new Set(words)].filter((word) => word && !NON_SIGNAL_WORDS.includes(word));
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
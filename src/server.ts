@@ -3,28 +3,30 @@
  * Simple web UI to search for turfs
  */
 
-import express, { Request, Response } from 'express';
+import express, { NextFunction, Request, Response } from 'express';
+import crypto from 'crypto';
 import path from 'path';
 import { config as dotenvConfig } from 'dotenv';
 
-import {
-  SearchOutput,
-  TurfResult,
-  TurfReview,
-  DEFAULT_CONFIG,
-  NearbySearchPlace,
-  PlaceDetailsResponse,
-} from './types';
+import { DistanceRequest, MeetupRequest, SearchRequest } from './types';
 import {
   setApiKey,
-  getApiKey,
-  geocodeLocation,
-  searchTurfs,
-  getPlaceDetailsBatch,
-  getPhotoUrls,
   isApiKeyConfigured,
+  ensureApiKeyFromEnv,
+  clearCaches,
+  invalidatePlace,
 } from './google';
-import { haversineDistance, roundDistance } from './distance';
+import { TurfFinder } from './finder';
+import { listSportProfiles, loadSportProfilesFromEnv } from './profiles';
+import { listLocalities } from './areas';
+import { getProxiedPhoto, sendPhoto } from './photos';
+import { SearchContext } from './context';
+import { UsageLedger } from './usage';
+import { getDistances } from './travel';
+import { toErrorResponse } from './errors';
+import { toBodyError } from './validation';
+import { startCassetteFromEnv, getActiveCassette } from './cassette';
+import { allCaches, createCacheStore, getCacheStore, setCacheStore, startCachePruning } from './cache';
 
 // Load environment variables
 dotenvConfig();
@@ -42,145 +44,121 @@ if (apiKey) {
   setApiKey(apiKey);
 }
 
+// Load custom sport profiles
+loadSportProfilesFromEnv();
+
+// Record or replay Google API traffic (RECORD_CASSETTE / REPLAY_CASSETTE)
+const cassetteMode = startCassetteFromEnv();
+if (cassetteMode === 'replay' && !isApiKeyConfigured()) {
+  // Replayed requests never reach Google, so any key will do
+  setApiKey('replay');
+}
+if (cassetteMode) {
+  // Responses cached on disk by earlier runs would never reach the cassette
+  setCacheStore(createCacheStore('memory'));
+}
+
+// Google API usage since the server started
+const usageLedger = new UsageLedger();
+
+// Background refreshes of stale results still cost Google calls
+const finder = new TurfFinder({ onRevalidated: (output) => usageLedger.add(output.usage, false) });
+
+// Drop expired responses in the background so the cache doesn't grow with traffic
+startCachePruning();
+
 // ============================================================================
 // API Routes
 // ============================================================================
 
-interface SearchRequestBody {
-  location?: string;
-  lat?: number;
-  lng?: number;
-  radiusKm?: number;
-  keyword?: string;
-  maxResults?: number;
-  detailsLimit?: number;
+/**
+ * Answer with the status and JSON body for the error's code (see errors.ts)
+ * Only failures that aren't the caller's fault are logged
+ */
+function sendError(res: Response, error: unknown, fallbackTitle: string, logLabel: string): void {
+  const { status, body } = toErrorResponse(error, fallbackTitle);
+  if (status >= 429) {
+    console.error(`${logLabel}:`, error);
+  }
+  res.status(status).json(body);
 }
 
 /**
  * POST /api/search - Search for turfs
  */
-app.post('/api/search', async (req: Request<object, object, SearchRequestBody>, res: Response) => {
+app.post('/api/search', async (req: Request<object, object, SearchRequest>, res: Response) => {
   try {
-    // Check API key
-    if (!isApiKeyConfigured()) {
-      const envKey = process.env.GOOGLE_MAPS_API_KEY;
-      if (envKey) {
-        setApiKey(envKey);
-      } else {
-        res.status(500).json({
-          error: 'Server configuration error',
-          message: 'Google Maps API key is not configured',
-        });
-        return;
-      }
-    }
-
-    const {
-      location,
-      lat: inputLat,
-      lng: inputLng,
-      radiusKm = DEFAULT_CONFIG.defaultRadiusKm,
-      keyword,
-      maxResults = DEFAULT_CONFIG.maxResults,
-      detailsLimit = DEFAULT_CONFIG.detailsLimit,
-    } = req.body;
-
-    // Validate input
-    if (!location && (inputLat === undefined || inputLng === undefined)) {
-      res.status(400).json({
-        error: 'Validation error',
-        message: 'Either location OR both lat and lng are required',
-      });
+    // A dry run only plans the search, so it works without an API key
+    if (req.body?.dryRun) {
+      res.json(await finder.plan(req.body));
       return;
     }
 
-    // Get coordinates
-    let lat: number;
-    let lng: number;
-    let resolvedLocation: string | undefined;
-
-    if (inputLat !== undefined && inputLng !== undefined) {
-      lat = inputLat;
-      lng = inputLng;
-    } else if (location) {
-      const geocodeResult = await geocodeLocation(location);
-      lat = geocodeResult.lat;
-      lng = geocodeResult.lng;
-      resolvedLocation = geocodeResult.formattedAddress;
-    } else {
-      res.status(400).json({
-        error: 'Validation error',
-        message: 'No location provided',
-      });
-      return;
-    }
-
-    // Search for turfs (works anywhere in India)
-    const places = await searchTurfs(lat, lng, radiusKm, keyword, maxResults);
-
-    if (places.length === 0) {
-      res.json({
-        query: { lat, lng, radiusKm, keyword, location: resolvedLocation || location },
-        generatedAt: new Date().toISOString(),
-        totalFound: 0,
-        detailsFetched: 0,
-        results: [],
-        message: 'No turfs found in the specified area. Try increasing the radius.',
-      });
-      return;
-    }
+    ensureApiKeyFromEnv();
 
-    // Calculate distances and sort
-    const placesWithDistance = places
-      .map((place) => {
-        const placeLat = place.location?.latitude;
-        const placeLng = place.location?.longitude;
-        if (!placeLat || !placeLng) {
-          return { place, distanceKm: Infinity };
-        }
-        const distanceKm = roundDistance(
-          haversineDistance({ lat, lng }, { lat: placeLat, lng: placeLng })
-        );
-        return { place, distanceKm };
-      })
-      .filter((p) => p.distanceKm <= radiusKm)
-      .sort((a, b) => a.distanceKm - b.distanceKm);
-
-    // Fetch details for top N
-    const placesToEnrich = placesWithDistance.slice(0, detailsLimit);
-    const placeIds = placesToEnrich.map((p) => p.place.id);
-    const detailsMap = await getPlaceDetailsBatch(placeIds, DEFAULT_CONFIG.concurrencyLimit);
-
-    // Build results
-    const results: TurfResult[] = placesToEnrich.map(({ place, distanceKm }) => {
-      const details = detailsMap.get(place.id) || null;
-      return buildTurfResult(place, details, distanceKm);
-    });
+    const output = await finder.search(req.body);
+    usageLedger.add(output.usage);
+    res.json(output);
+  } catch (error) {
+    sendError(res, error, 'Search failed', 'Search error');
+  }
+});
 
-    const output = {
-      query: {
-        lat,
-        lng,
-        radiusKm,
-        keyword: keyword || null,
-        location: resolvedLocation || location,
-      },
-      generatedAt: new Date().toISOString(),
-      totalFound: placesWithDistance.length,
-      detailsFetched: results.length,
-      results,
-    };
+/**
+ * POST /api/meetup - Find turfs that suit several players' locations
+ */
+app.post('/api/meetup', async (req: Request<object, object, MeetupRequest>, res: Response) => {
+  try {
+    ensureApiKeyFromEnv();
 
+    const output = await finder.meetup(req.body);
+    usageLedger.add(output.usage);
     res.json(output);
   } catch (error) {
-    console.error('Search error:', error);
-    res.status(500).json({
-      error: 'Search failed',
-      message: error instanceof Error ? error.message : 'Unknown error',
-    });
+    sendError(res, error, 'Meetup search failed', 'Meetup error');
+  }
+});
+
+/**
+ * GET /api/photo/:photoRef - Proxy a Place photo so the API key stays on the server
+ */
+app.get('/api/photo/:photoRef', async (req: Request<{ photoRef: string }>, res: Response) => {
+  try {
+    ensureApiKeyFromEnv();
+
+    const context = new SearchContext();
+    const photo = await getProxiedPhoto(req.params.photoRef, req.query.maxWidthPx, req.query.maxHeightPx, context);
+    usageLedger.add(context.usage.toReport(), false);
+
+    sendPhoto(res, photo);
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch photo', 'Photo proxy error');
   }
 });
 
+/**
+ * GET /api/sports - List available sport profiles
+ */
+app.get('/api/sports', (_req: Request, res: Response) => {
+  res.json({
+    sports: listSportProfiles().map(({ name, label }) => ({ name, label })),
+  });
+});
+
+/**
+ * GET /api/localities - List bundled locality boundaries usable as a search area
+ */
+app.get('/api/localities', (_req: Request, res: Response) => {
+  res.json({ localities: listLocalities() });
+});
+
+/**
+ * GET /api/usage - Google API calls and estimated cost since the server started
+ */
+app.get('/api/usage', (_req: Request, res: Response) => {
+  res.json(usageLedger.summary());
+});
+
 /**
  * GET /api/health - Health check
  */
@@ -193,169 +171,108 @@ app.get('/api/health', (_req: Request, res: Response) => {
 });
 
 /**
- * POST /api/distance - Get travel distance/time using Distance Matrix API
+ * POST /api/distance - Travel distance and time to each destination (see DistanceRequest)
  */
-interface DistanceRequestBody {
-  originLat: number;
-  originLng: number;
-  destinations: Array<{ placeId: string; lat: number; lng: number }>;
-}
-
-interface DistanceMatrixResponse {
-  rows: Array<{
-    elements: Array<{
-      status: string;
-      distance?: { text: string; value: number };
-      duration?: { text: string; value: number };
-    }>;
-  }>;
-  status: string;
-}
-
-app.post('/api/distance', async (req: Request<object, object, DistanceRequestBody>, res: Response) => {
+app.post('/api/distance', async (req: Request<object, object, DistanceRequest>, res: Response) => {
   try {
-    if (!isApiKeyConfigured()) {
-      const envKey = process.env.GOOGLE_MAPS_API_KEY;
-      if (envKey) {
-        setApiKey(envKey);
-      } else {
-        res.status(500).json({ error: 'API key not configured' });
-        return;
-      }
-    }
-
-    const { originLat, originLng, destinations } = req.body;
-
-    if (!originLat || !originLng || !destinations || destinations.length === 0) {
-      res.status(400).json({ error: 'Invalid request parameters' });
-      return;
-    }
-
-    // Limit to 25 destinations per request (API limit)
-    const limitedDestinations = destinations.slice(0, 25);
-    const destinationCoords = limitedDestinations
-      .map((d) => `${d.lat},${d.lng}`)
-      .join('|');
-
-    const results: Record<string, { driving?: { distance: string; duration: string }; bicycling?: { distance: string; duration: string } }> = {};
-
-    // Fetch driving distances
-    const drivingUrl = `https://maps.googleapis.com/maps/api/distancematrix/json?origins=${originLat},${originLng}&destinations=${destinationCoords}&mode=driving&key=${getApiKey()}`;
-    
-    try {
-      const drivingResponse = await fetch(drivingUrl);
-      const drivingData = (await drivingResponse.json()) as DistanceMatrixResponse;
-      
-      if (drivingData.status === 'OK' && drivingData.rows[0]) {
-        drivingData.rows[0].elements.forEach((element, index) => {
-          const placeId = limitedDestinations[index].placeId;
-          if (!results[placeId]) results[placeId] = {};
-          
-          if (element.status === 'OK' && element.distance && element.duration) {
-            results[placeId].driving = {
-              distance: element.distance.text,
-              duration: element.duration.text,
-            };
-          }
-        });
-      }
-    } catch (err) {
-      console.warn('Driving distance fetch failed:', err);
-    }
+    ensureApiKeyFromEnv();
 
-    // Fetch bicycling distances
-    const bicyclingUrl = `https://maps.googleapis.com/maps/api/distancematrix/json?origins=${originLat},${originLng}&destinations=${destinationCoords}&mode=bicycling&key=${getApiKey()}`;
-    
-    try {
-      const bicyclingResponse = await fetch(bicyclingUrl);
-      const bicyclingData = (await bicyclingResponse.json()) as DistanceMatrixResponse;
-      
-      if (bicyclingData.status === 'OK' && bicyclingData.rows[0]) {
-        bicyclingData.rows[0].elements.forEach((element, index) => {
-          const placeId = limitedDestinations[index].placeId;
-          if (!results[placeId]) results[placeId] = {};
-          
-          if (element.status === 'OK' && element.distance && element.duration) {
-            results[placeId].bicycling = {
-              distance: element.distance.text,
-              duration: element.duration.text,
-            };
-          }
-        });
-      }
-    } catch (err) {
-      console.warn('Bicycling distance fetch failed:', err);
-    }
-
-    res.json({ distances: results });
+    const output = await getDistances(req.body || {});
+    usageLedger.add(output.usage, false);
+    res.json(output);
   } catch (error) {
-    console.error('Distance API error:', error);
-    res.status(500).json({
-      error: 'Failed to fetch distances',
-      message: error instanceof Error ? error.message : 'Unknown error',
-    });
+    sendError(res, error, 'Distance calculation failed', 'Distance error');
   }
 });
 
 // ============================================================================
-// Helper Functions
+// Admin Routes
 // ============================================================================
 
-function buildTurfResult(
-  place: NearbySearchPlace,
-  details: PlaceDetailsResponse | null,
-  distanceKm: number
-): TurfResult {
-  const name = details?.displayName?.text || place.displayName?.text || 'Unknown';
-  const address = details?.formattedAddress || place.formattedAddress || 'Address not available';
-
-  // Get coordinates from place or details
-  const placeLat = details?.location?.latitude ?? place.location?.latitude ?? null;
-  const placeLng = details?.location?.longitude ?? place.location?.longitude ?? null;
-
-  let phone: string | null = null;
-  if (details?.internationalPhoneNumber) {
-    phone = details.internationalPhoneNumber;
-  } else if (details?.nationalPhoneNumber) {
-    phone = details.nationalPhoneNumber;
+/**
+ * Require `Authorization: Bearer <ADMIN_TOKEN>`; admin routes are disabled when ADMIN_TOKEN is unset
+ */
+function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  const adminToken = process.env.ADMIN_TOKEN;
+  if (!adminToken) {
+    res.status(404).json({
+      error: 'Not found',
+      message: 'Admin endpoints are disabled. Set ADMIN_TOKEN to enable them.',
+    });
+    return;
+  }
+
+  const token = req.get('Authorization')?.replace(/^Bearer\s+/i, '') || '';
+  // Compare digests so the check takes the same time whatever the token length
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  if (!crypto.timingSafeEqual(digest(token), digest(adminToken))) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    res.status(401).json({ error: 'Unauthorized', message: 'A valid admin token is required' });
+    return;
   }
 
-  const mapsUrl =
-    details?.googleMapsUri || `https://www.google.com/maps/place/?q=place_id:${place.id}`;
-  const openNow =
-    details?.regularOpeningHours?.openNow ?? place.regularOpeningHours?.openNow ?? null;
-  const rating = details?.rating ?? place.rating ?? null;
-  const userRatingsTotal = details?.userRatingCount ?? place.userRatingCount ?? null;
-  const photos = getPhotoUrls(details?.photos || place.photos, 3);
-
-  const topReviews: TurfReview[] = (details?.reviews || []).slice(0, 3).map((review) => ({
-    author: review.authorAttribution?.displayName || 'Anonymous',
-    rating: review.rating ?? null,
-    relativeTime: review.relativePublishTimeDescription || '',
-    text: truncateText(review.text?.text || review.originalText?.text || '', 240),
-  }));
-
-  return {
-    placeId: place.id,
-    name,
-    distanceKm,
-    address,
-    mapsUrl,
-    phone,
-    openNow,
-    rating,
-    userRatingsTotal,
-    photos,
-    topReviews,
-    lat: placeLat,
-    lng: placeLng,
-  };
+  next();
 }
 
-function truncateText(text: string, maxLength: number): string {
-  if (text.length <= maxLength) return text;
-  return text.substring(0, maxLength - 3) + '...';
-}
+app.use('/api/admin', requireAdmin);
+
+/**
+ * GET /api/admin/cache - Size, limits, hit rate and oldest entry of each cache
+ */
+app.get('/api/admin/cache', (_req: Request, res: Response) => {
+  res.json({
+    store: getCacheStore().type,
+    caches: allCaches.map((cache) => cache.stats()),
+  });
+});
+
+/**
+ * DELETE /api/admin/cache/place/:placeId - Forget one venue's details after its listing changed
+ */
+app.delete('/api/admin/cache/place/:placeId', (req: Request<{ placeId: string }>, res: Response) => {
+  const { placeId } = req.params;
+  const detailsRemoved = invalidatePlace(placeId);
+  console.log(`[Admin] Invalidated cached details for ${placeId} (${detailsRemoved} entries)`);
+  res.json({ placeId, detailsRemoved, resultsCleared: true });
+});
+
+/**
+ * DELETE /api/admin/cache/:name - Clear one cache by name, or every cache with "all"
+ */
+app.delete('/api/admin/cache/:name', (req: Request<{ name: string }>, res: Response) => {
+  const { name } = req.params;
+
+  if (name === 'all') {
+    clearCaches();
+    console.log('[Admin] Cleared all caches');
+    res.json({ cleared: allCaches.map((cache) => cache.namespace) });
+    return;
+  }
+
+  const cache = allCaches.find((candidate) => candidate.namespace === name);
+  if (!cache) {
+    res.status(404).json({
+      error: 'Not found',
+      message: `Unknown cache "${name}". Available: all, ${allCaches.map((candidate) => candidate.namespace).join(', ')}`,
+    });
+    return;
+  }
+
+  cache.clear();
+  console.log(`[Admin] Cleared the ${name} cache`);
+  res.json({ cleared: [name] });
+});
+
+/**
+ * Errors thrown before a route runs, such as a malformed JSON body, get the same JSON body
+ */
+app.use((error: unknown, _req: Request, res: Response, next: NextFunction) => {
+  if (res.headersSent) {
+    next(error);
+    return;
+  }
+  sendError(res, toBodyError(error), 'Request failed', 'Request error');
+});
 
 // ============================================================================
 // Start Server
@@ -365,5 +282,11 @@ app.listen(PORT, () => {
   console.log(`\n🏟️  Turf Finder Server`);
   console.log(`   Running at: http://localhost:${PORT}`);
   console.log(`   API Key: ${isApiKeyConfigured() ? '✅ Configured' : '❌ Not configured'}`);
+  if (process.env.ADMIN_TOKEN) {
+    console.log(`   Admin: /api/admin/cache`);
+  }
+  if (cassetteMode) {
+    console.log(`   Cassette: ${cassetteMode === 'record' ? 'recording to' : 'replaying'} ${getActiveCassette()?.filePath}`);
+  }
   console.log(`\n   Open your browser to start searching!\n`);
 });
@@ -0,0 +1,90 @@
+/**
+ * Spatial reuse of cached searches
+ * A complete cached search (one not cut short by a result or page cap) holds every
+ * place in its circle, so a search for any circle inside it can be answered by
+ * filtering those places by distance instead of calling Google again
+ */
+
+import { CachedSearchArea, NearbySearchPlace, SearchCircle } from './types';
+import { areaCache, searchCache, TtlCache } from './cache';
+import { haversineDistance } from './distance';
+
+/** Circles remembered per query; the most recent are kept */
+const MAX_AREAS_PER_QUERY = 50;
+
+export interface CoveringSearch {
+  /** Circle of the cached search that was reused */
+  area: SearchCircle;
+  /** Its places that lie inside the requested circle */
+  places: NearbySearchPlace[];
+}
+
+/**
+ * Whether `outer` fully contains `inner`
+ */
+export function circleContains(outer: SearchCircle, inner: SearchCircle): boolean {
+  const centerDistanceMeters = haversineDistance(outer, inner) * 1000;
+  return centerDistanceMeters + inner.radiusMeters <= outer.radiusMeters;
+}
+
+/**
+ * Places whose coordinates lie inside a circle (places without coordinates are dropped)
+ */
+export function filterToCircle(places: NearbySearchPlace[], circle: SearchCircle): NearbySearchPlace[] {
+  return places.filter((place) => {
+    const { latitude, longitude } = place.location || {};
+    if (latitude === undefined || longitude === undefined) {
+      return false;
+    }
+    return haversineDistance(circle, { lat: latitude, lng: longitude }) * 1000 <= circle.radiusMeters;
+  });
+}
+
+/**
+ * Answer a search from a cached complete search whose circle contains the requested one
+ * @param query - What identifies the search apart from its circle and result caps (type, keyword, included types)
+ * @param peek - Check without counting a cache hit (dry-run planning)
+ * @returns Null when no cached search covers the circle
+ */
+export function findCoveringSearch(
+  query: Record<string, unknown>,
+  circle: SearchCircle,
+  maxResults: number,
+  peek = false
+): CoveringSearch | null {
+  const now = Date.now();
+
+  for (const area of areaCache.peek(areaIndexKey(query)) || []) {
+    if (area.expiresAt < now || !circleContains(area, circle)) {
+      continue;
+    }
+
+    const places = (peek ? searchCache.peek(area.key) : searchCache.get(area.key)) as NearbySearchPlace[] | null;
+    if (places) {
+      const { lat, lng, radiusMeters } = area;
+      return { area: { lat, lng, radiusMeters }, places: filterToCircle(places, circle).slice(0, maxResults) };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Index a complete search that was just cached so later searches inside its circle can reuse it
+ */
+export function rememberSearchArea(query: Record<string, unknown>, circle: SearchCircle, key: string): void {
+  const indexKey = areaIndexKey(query);
+  const now = Date.now();
+
+  // Circles inside the new one are redundant for spatial lookups (exact lookups still find them)
+  const areas = (areaCache.peek(indexKey) || []).filter(
+    (area) => area.expiresAt >= now && !circleContains(circle, area)
+  );
+  areas.unshift({ lat: circle.lat, lng: circle.lng, radiusMeters: circle.radiusMeters, key, expiresAt: now + searchCache.ttlMs });
+
+  areaCache.set(indexKey, areas.slice(0, MAX_AREAS_PER_QUERY));
+}
+
+function areaIndexKey(query: Record<string, unknown>): string {
+  return TtlCache.generateKey(query);
+}
@@ -0,0 +1,74 @@
+/**
+ * Hex grid tiling of a search circle
+ * Splits a large search area into overlapping sub-circles so each gets its own result quota
+ */
+
+import { LatLng } from './types';
+import { haversineDistance } from './distance';
+
+/** Kilometers per degree of latitude */
+const KM_PER_DEGREE_LAT = 111.32;
+
+export interface SearchTile extends LatLng {
+  radiusKm: number;
+}
+
+/**
+ * Build a hex grid of circles that covers the search circle
+ *
+ * Tile centers sit on a hexagonal lattice spaced √3·r apart, which is the
+ * spacing at which circles of radius r cover the plane with no gaps. Tiles are
+ * ordered from the center outwards.
+ */
+export function buildHexTiles(center: LatLng, radiusKm: number, tileRadiusKm: number): SearchTile[] {
+  if (tileRadiusKm >= radiusKm) {
+    return [{ ...center, radiusKm }];
+  }
+
+  const spacingKm = Math.sqrt(3) * tileRadiusKm;
+  const rowHeightKm = spacingKm * (Math.sqrt(3) / 2);
+  const rings = Math.ceil((radiusKm + tileRadiusKm) / rowHeightKm);
+  const kmPerDegreeLng = KM_PER_DEGREE_LAT * Math.cos((center.lat * Math.PI) / 180);
+
+  const tiles: Array<SearchTile & { offsetKm: number }> = [];
+
+  for (let row = -rings; row <= rings; row++) {
+    const yKm = row * rowHeightKm;
+    // Every other row is shifted by half a spacing
+    const shiftKm = Math.abs(row) % 2 === 1 ? spacingKm / 2 : 0;
+
+    for (let col = -rings; col <= rings; col++) {
+      const xKm = col * spacingKm + shiftKm;
+      const tileCenter = {
+        lat: center.lat + yKm / KM_PER_DEGREE_LAT,
+        lng: center.lng + xKm / kmPerDegreeLng,
+      };
+      const offsetKm = haversineDistance(center, tileCenter);
+
+      // Keep every tile whose hex cell can reach into the search circle
+      if (offsetKm < radiusKm + tileRadiusKm) {
+        tiles.push({ ...tileCenter, radiusKm: tileRadiusKm, offsetKm });
+      }
+    }
+  }
+
+  return tiles
+    .sort((a, b) => a.offsetKm - b.offsetKm)
+    .map(({ lat, lng, radiusKm: r }) => ({ lat, lng, radiusKm: r }));
+}
+
+/**
+ * Pick a tile radius for a search: the preferred size, grown until the grid fits in maxTiles
+ */
+export function chooseTileRadiusKm(radiusKm: number, preferredTileRadiusKm: number, maxTiles: number): number {
+  let tileRadiusKm = preferredTileRadiusKm;
+  while (tileRadiusKm < radiusKm && countHexTiles(radiusKm, tileRadiusKm) > maxTiles) {
+    tileRadiusKm *= 1.25;
+  }
+  return Math.min(tileRadiusKm, radiusKm);
+}
+
+function countHexTiles(radiusKm: number, tileRadiusKm: number): number {
+  // Tile count only depends on the ratio of the radii, so any center works
+  return buildHexTiles({ lat: 0, lng: 0 }, radiusKm, tileRadiusKm).length;
+}
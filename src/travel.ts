@@ -0,0 +1,114 @@
+/**
+ * Travel distances for POST /api/distance
+ * One contract for the Express server and the Vercel function: numeric meters and
+ * seconds next to Google's text, any set of modes, and a status per destination
+ */
+
+import {
+  DistanceRequest,
+  DistanceResponse,
+  LatLng,
+  RetryPolicy,
+  TRAVEL_MODES,
+  TravelMode,
+  ValidationError,
+} from './types';
+import { geocodeLocation, getDistanceMatrixMode, getTravelMatrix } from './google';
+import { findCityInText, getCityGeocodeOptions } from './cities';
+import { SearchContext } from './context';
+import { validateDistanceRequest } from './validation';
+
+/** Destinations per /api/distance request (sent to Google 25 at a time) */
+export const MAX_DISTANCE_DESTINATIONS = 100;
+
+export const DEFAULT_DISTANCE_MODES: TravelMode[] = ['driving', 'bicycling'];
+
+/**
+ * Validate a departure time
+ * Google refuses a departure time in the past, so one is rejected here.
+ * @returns "now", the time as an ISO string, or null when not given
+ */
+export function normalizeDepartureTime(value: string | undefined): string | null {
+  if (value === undefined || value === 'now') {
+    return value ?? null;
+  }
+  const time = typeof value === 'string' ? Date.parse(value) : NaN;
+  if (Number.isNaN(time)) {
+    const message = 'must be "now" or an ISO 8601 date-time';
+    throw new ValidationError(`departureTime ${message}`, [{ field: 'departureTime', message }]);
+  }
+  if (time < Date.now()) {
+    const message = 'must not be in the past; use "now" to leave now';
+    throw new ValidationError(`departureTime ${message}`, [{ field: 'departureTime', message }]);
+  }
+  return new Date(time).toISOString();
+}
+
+/**
+ * Travel from one origin to each destination in every requested mode
+ */
+export async function getDistances(input: DistanceRequest, retryPolicy?: RetryPolicy): Promise<DistanceResponse> {
+  const request = validateDistanceRequest(input);
+  const { destinations } = request;
+  const modes = [...new Set(request.modes ?? DEFAULT_DISTANCE_MODES)];
+  const departureTime = normalizeDepartureTime(request.departureTime);
+
+  if (destinations.length === 0) {
+    throw new ValidationError('destinations must be a non-empty array');
+  }
+
+  if (destinations.length > MAX_DISTANCE_DESTINATIONS) {
+    throw new ValidationError(`At most ${MAX_DISTANCE_DESTINATIONS} destinations are allowed per request`);
+  }
+
+  destinations.forEach((destination, index) => {
+    if (typeof destination?.id !== 'string' || !isLatLng(destination)) {
+      throw new ValidationError(`Destination ${index + 1} needs an id and numeric lat and lng`);
+    }
+  });
+
+  if (modes.length === 0 || !modes.every((mode) => TRAVEL_MODES.includes(mode))) {
+    throw new ValidationError(`modes must list one or more of: ${TRAVEL_MODES.join(', ')}`);
+  }
+
+  const context = new SearchContext({ retryPolicy });
+  const origin = await resolveOrigin(request.origin, context);
+  const points = destinations.map(({ lat, lng }) => ({ lat, lng }));
+
+  const matrices = await Promise.all(
+    modes.map((mode) => getTravelMatrix([origin], points, { mode, departureTime }, context))
+  );
+
+  return {
+    origin,
+    modes,
+    departureTime,
+    modesUsed: Object.fromEntries(modes.map((mode) => [mode, getDistanceMatrixMode(mode)])),
+    results: destinations.map(({ id }, index) => ({
+      id,
+      travel: Object.fromEntries(modes.map((mode, modeIndex) => [mode, matrices[modeIndex][0][index]])),
+    })),
+    usage: context.usage.toReport(),
+  };
+}
+
+async function resolveOrigin(origin: DistanceRequest['origin'], context: SearchContext): Promise<LatLng> {
+  if (typeof origin === 'string' && origin.trim()) {
+    const city = findCityInText(origin);
+    const { lat, lng } = await geocodeLocation(origin, getCityGeocodeOptions(city?.id ?? null), context);
+    return { lat, lng };
+  }
+
+  if (isLatLng(origin)) {
+    return { lat: origin.lat, lng: origin.lng };
+  }
+
+  throw new ValidationError('origin must be an address or an object with numeric lat and lng');
+}
+
+function isLatLng(value: unknown): value is LatLng {
+  const { lat, lng } = (value || {}) as Partial<LatLng>;
+  return (
+    typeof lat === 'number' && Math.abs(lat) <= 90 && typeof lng === 'number' && Math.abs(lng) <= 180
+  );
+}
@@ -6,6 +6,37 @@
 // Configuration Types
 // ============================================================================
 
+export interface RetryPolicy {
+  /** Retries after the first attempt (0 disables retrying) */
+  maxRetries: number;
+  /** Base delay for exponential backoff in milliseconds */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff or Retry-After wait in milliseconds */
+  maxDelayMs: number;
+  /** Per-attempt request timeout in milliseconds */
+  timeoutMs: number;
+  /** HTTP statuses that are worth retrying */
+  retryStatuses: number[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 300,
+  maxDelayMs: 5000,
+  timeoutMs: 10000,
+  retryStatuses: [408, 429, 500, 502, 503, 504],
+};
+
+/**
+ * How much Place Details data to request; each level adds fields (and a pricier SKU)
+ * - basic: name, address, location, Maps link and photos
+ * - contact: adds phone numbers, website, opening hours and rating
+ * - full: adds reviews
+ */
+export type DetailLevel = 'basic' | 'contact' | 'full';
+
+export const DETAIL_LEVELS: DetailLevel[] = ['basic', 'contact', 'full'];
+
 export interface Config {
   /** Default search radius in kilometers */
   defaultRadiusKm: number;
@@ -13,20 +44,96 @@ export interface Config {
   maxResults: number;
   /** Maximum number of places to fetch detailed info for */
   detailsLimit: number;
-  /** Cache TTL in milliseconds */
+  /** Place Details field-mask level */
+  detailLevel: DetailLevel;
+  /** Maximum Text Search pages (of 20 results) to follow per keyword */
+  maxPagesPerQuery: number;
+  /** Preferred radius of each tile in a tiled search */
+  tileRadiusKm: number;
+  /** Upper bound on tiles per tiled search; tiles grow to stay within it */
+  maxTiles: number;
+  /** Minimum relevance confidence (0-1) for a place to be kept */
+  minConfidence: number;
+  /** Estimated cost cap per search in USD; null for no cap */
+  budgetUsd: number | null;
+  /** TTL of cached search results in milliseconds (geocodes and details have their own) */
   cacheTtlMs: number;
+  /** How long a whole search output is reused as fresh; 0 disables result caching */
+  resultCacheTtlMs: number;
+  /** How long after that a stale output is still served while it refreshes in the background */
+  staleWhileRevalidateMs: number;
   /** Concurrency limit for API calls */
   concurrencyLimit: number;
+  /** Retry, backoff and timeout policy for Google API calls */
+  retry: RetryPolicy;
 }
 
 export const DEFAULT_CONFIG: Config = {
   defaultRadiusKm: 5,
   maxResults: 30,
   detailsLimit: 20,
+  detailLevel: 'full',
+  maxPagesPerQuery: 3,
+  tileRadiusKm: 2.5,
+  maxTiles: 19,
+  minConfidence: 0.5,
+  budgetUsd: null,
   cacheTtlMs: 10 * 60 * 1000, // 10 minutes
+  resultCacheTtlMs: 5 * 60 * 1000, // 5 minutes
+  staleWhileRevalidateMs: 10 * 60 * 1000, // 10 minutes
   concurrencyLimit: 5,
+  retry: DEFAULT_RETRY_POLICY,
 };
 
+// ============================================================================
+// Sport Profile Types
+// ============================================================================
+
+export interface SportProfile {
+  /** Identifier used by --sport and the `sport` request field */
+  name: string;
+  /** Display name for the web UI */
+  label: string;
+  /** Text Search queries, in priority order */
+  keywords: string[];
+  /** Google place types for the Nearby Search (empty skips it) */
+  includedTypes: string[];
+  /** Words or phrases in a place name that show it fits this sport */
+  positiveKeywords: string[];
+  /** Words or phrases in a place name that count against it */
+  excludeKeywords: string[];
+  /** Google types that count against a place */
+  excludeTypes: string[];
+}
+
+// ============================================================================
+// City Types
+// ============================================================================
+
+export interface CityBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export interface City {
+  /** Registry key (e.g. "bangalore") */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Lowercase names that identify the city in location text (e.g. "bengaluru", "blr") */
+  aliases: string[];
+  /** Approximate bounding box of the metro area */
+  bounds: CityBounds;
+  /** Search radius when the request doesn't set one */
+  defaultRadiusKm: number;
+  /** Region code biasing Geocoding results (ccTLD, e.g. "in") */
+  region: string;
+  /** Extra Text Search keywords per sport profile for local naming habits */
+  keywordTweaks: Record<string, string[]>;
+}
+
 // ============================================================================
 // Input Types
 // ============================================================================
@@ -35,19 +142,137 @@ export interface CliArgs {
   location?: string;
   lat?: number;
   lng?: number;
-  radiusKm: number;
+  radiusKm?: number;
+  sport: string;
   keyword?: string;
   maxResults: number;
   detailsLimit: number;
+  detailLevel: DetailLevel;
+  maxPages: number;
+  tiled: boolean;
+  tileRadiusKm?: number;
+  minConfidence: number;
+  explain: boolean;
+  budgetUsd?: number;
+  dryRun: boolean;
+  /** GeoJSON file with the Polygon or MultiPolygon to search inside */
+  areaFile?: string;
+  /** Bundled locality boundary to search inside */
+  locality?: string;
+  /** City to search in */
+  city?: string;
+  travelMode?: TravelMode;
+  maxTravelMinutes?: number;
+  departureTime?: string;
+}
+
+/** Search input accepted by TurfFinder.search() - omitted values fall back to the config defaults */
+export interface SearchRequest {
+  location?: string;
+  lat?: number;
+  lng?: number;
+  radiusKm?: number;
+  /** Sport profile name (e.g. "football", "cricket"); defaults to "any" */
+  sport?: string;
+  keyword?: string;
+  maxResults?: number;
+  detailsLimit?: number;
+  /** Place Details fields to request: "basic", "contact" or "full" */
+  detailLevel?: DetailLevel;
+  /** Text Search pages to follow per keyword */
+  maxPages?: number;
+  /** Split the area into a hex grid of smaller searches for better coverage */
+  tiled?: boolean;
+  tileRadiusKm?: number;
+  /** Minimum relevance confidence (0-1) for a place to be kept */
+  minConfidence?: number;
+  /** Include the relevance classification of every discovered place in the output */
+  explain?: boolean;
+  /** Stop running further keyword queries once the estimated cost reaches this (USD) */
+  budgetUsd?: number;
+  /** Only estimate the Google calls and cost (see TurfFinder.plan) */
+  dryRun?: boolean;
+  /**
+   * Search inside a GeoJSON Polygon or MultiPolygon (or a Feature wrapping one) instead of a
+   * circle; location or lat/lng then only sets the point distances are measured from
+   */
+  area?: AreaGeometry | GeoJsonFeature;
+  /** Search inside a bundled locality boundary (e.g. "HSR Layout") */
+  locality?: string;
+  /** City id or name; otherwise detected from the coordinates or location text */
+  city?: string;
+  /** Rank by Distance Matrix travel time in this mode (defaults to driving when maxTravelMinutes is set) */
+  travelMode?: TravelMode;
+  /** Drop places more than this many minutes away */
+  maxTravelMinutes?: number;
+  /** ISO 8601 time or "now"; driving times then include expected traffic */
+  departureTime?: string;
 }
 
+/** A validated search with defaults applied and the location resolved to coordinates */
 export interface SearchQuery {
   lat: number;
   lng: number;
+  /** Whether lat and lng still have to be geocoded from `location` (the request gave none) */
+  needsGeocode: boolean;
   radiusKm: number;
+  /** Whether radiusKm is a default rather than the request's, so a city found by geocoding may replace it */
+  radiusIsDefault: boolean;
+  sport: string;
   keyword?: string;
   maxResults: number;
   detailsLimit: number;
+  detailLevel: DetailLevel;
+  maxPages: number;
+  tiled: boolean;
+  tileRadiusKm: number;
+  minConfidence: number;
+  explain: boolean;
+  budgetUsd: number | null;
+  /** Location text as entered by the user */
+  location?: string;
+  /** Address returned by the geocoder for `location` */
+  formattedAddress?: string;
+  /** Polygon to search inside; radiusKm is then the radius of the circle covering it */
+  area: SearchArea | null;
+  /** Registry id of the city the search is in; null outside every known city */
+  city: string | null;
+  /** Travel-time ranking and filter; null to rank by straight-line distance */
+  travel: TravelQuery | null;
+}
+
+// ============================================================================
+// Search Area Types
+// ============================================================================
+
+/** GeoJSON Polygon: rings of [lng, lat] positions, the first ring outer and the rest holes */
+export interface GeoJsonPolygon {
+  type: 'Polygon';
+  coordinates: number[][][];
+}
+
+export interface GeoJsonMultiPolygon {
+  type: 'MultiPolygon';
+  coordinates: number[][][][];
+}
+
+export type AreaGeometry = GeoJsonPolygon | GeoJsonMultiPolygon;
+
+export interface GeoJsonFeature {
+  type: 'Feature';
+  geometry: AreaGeometry;
+  properties?: Record<string, unknown> | null;
+}
+
+/** A validated search area with the circle that covers it */
+export interface SearchArea {
+  /** Locality or feature name; null for an unnamed polygon */
+  name: string | null;
+  geometry: AreaGeometry;
+  /** Centre of the bounding box, used as the reference point when the request has none */
+  center: LatLng;
+  /** Radius of the circle around `center` that contains the whole area */
+  radiusKm: number;
 }
 
 // ============================================================================
@@ -174,6 +399,12 @@ export interface TurfResult {
   lat: number | null;
   /** Place longitude for distance calculations */
   lng: number | null;
+  /** Relevance confidence (0-1) from the classifier */
+  confidence: number | null;
+  /** Fields left empty because the detail level didn't request them (as opposed to Google not having them) */
+  unrequestedFields: Array<keyof TurfResult>;
+  /** Travel from the search location; null unless travel time was requested and Google found a route */
+  travel: TurfTravel | null;
 }
 
 export interface SearchOutput {
@@ -181,32 +412,420 @@ export interface SearchOutput {
     lat: number;
     lng: number;
     radiusKm: number;
+    sport: string;
     keyword: string | null;
+    detailLevel: DetailLevel;
     location?: string;
+    formattedAddress?: string;
+    /** Present when the search was limited to a polygon */
+    area?: { name: string | null; type: AreaGeometry['type'] };
+    /** City the query resolved to; null outside every known city */
+    city: { id: string; name: string } | null;
+    /** Present when results were ranked by travel time */
+    travel?: TravelQuery;
   };
   generatedAt: string;
   totalFound: number;
   detailsFetched: number;
+  /** Number of search circles queried (1 unless the search was tiled) */
+  tilesUsed: number;
   results: TurfResult[];
+  /** Human-readable note, e.g. when nothing was found */
+  message?: string;
+  /** Partial failures and caveats; empty when the output is complete and fresh */
+  warnings: SearchWarning[];
+  diagnostics: SearchDiagnostics;
+  usage: UsageReport;
+  /** Whether this output was just computed, reused from the result cache or shared with a concurrent request */
+  cache: SearchCacheInfo;
+  /** Relevance decisions for every discovered place (only with `explain`) */
+  explain?: SearchExplanation;
+}
+
+/**
+ * fresh: computed for this request or cached within resultCacheTtlMs
+ * stale: cached output past resultCacheTtlMs, refreshed in the background
+ * coalesced: joined an identical search that was already in flight
+ */
+export type SearchCacheStatus = 'fresh' | 'stale' | 'coalesced';
+
+export interface SearchCacheInfo {
+  status: SearchCacheStatus;
+  /** Age of the output in milliseconds (0 when computed for this request) */
+  ageMs: number;
+}
+
+export interface PlaceClassification {
+  placeId: string;
+  name: string;
+  /** Relevance score between 0 and 1 */
+  confidence: number;
+  kept: boolean;
+  /** Signals that contributed to the score */
+  reasons: string[];
+}
+
+export interface SearchExplanation {
+  threshold: number;
+  kept: PlaceClassification[];
+  rejected: PlaceClassification[];
+}
+
+export interface RetryRecord {
+  /** Google API the request was made to (e.g. "Text Search") */
+  api: string;
+  /** Attempt number that failed (1-based) */
+  attempt: number;
+  /** HTTP status of the failed attempt, if a response was received */
+  status?: number;
+  /** Error message for timeouts and network failures */
+  error?: string;
+  /** Time waited before the next attempt */
+  delayMs: number;
+}
+
+export interface FailureRecord {
+  api: string;
+  /** Total attempts made before giving up */
+  attempts: number;
+  status?: number;
+  message: string;
+}
+
+export interface SearchDiagnostics {
+  retries: RetryRecord[];
+  failures: FailureRecord[];
+}
+
+/**
+ * query_failed: a search query failed and was skipped
+ * details_missing: places listed without their Place Details
+ * travel_unavailable: places without a travel time, ranked by straight-line distance
+ * travel_mode_fallback: travel times are for another mode than the one asked for
+ * outside_cities: the location is outside every supported city
+ * cached: the output, or some Google responses behind it, came from cache
+ */
+export type SearchWarningCode =
+  | 'query_failed'
+  | 'details_missing'
+  | 'travel_unavailable'
+  | 'travel_mode_fallback'
+  | 'outside_cities'
+  | 'cached';
+
+/** Something the results are missing or should be read with */
+export interface SearchWarning {
+  code: SearchWarningCode;
+  message: string;
+  /** The failed query (query_failed) */
+  query?: string;
+  /** The places affected (details_missing, travel_unavailable) */
+  placeIds?: string[];
+}
+
+// ============================================================================
+// Travel Types
+// ============================================================================
+
+/** Travel modes; two-wheeler uses driving times, as Distance Matrix has no two-wheeler mode (see modeUsed) */
+export type TravelMode = 'driving' | 'two-wheeler' | 'bicycling' | 'walking' | 'transit';
+
+export const TRAVEL_MODES: TravelMode[] = ['driving', 'two-wheeler', 'bicycling', 'walking', 'transit'];
+
+export interface TravelOptions {
+  mode: TravelMode;
+  /** ISO 8601 time or "now"; driving and transit times then depend on when you leave */
+  departureTime?: string | null;
+}
+
+export interface TravelQuery extends TravelOptions {
+  departureTime: string | null;
+  maxMinutes: number | null;
+}
+
+/** One origin → destination element of a Distance Matrix response */
+export interface TravelLeg {
+  distanceMeters: number;
+  durationSeconds: number;
+  /** Google's display text, e.g. "4.2 km" */
+  distanceText: string;
+  /** Google's display text, e.g. "18 mins" */
+  durationText: string;
+}
+
+export interface TurfTravel extends TravelLeg {
+  /** The mode asked for */
+  mode: TravelMode;
+  /** The mode Distance Matrix timed it with; driving for two-wheeler */
+  modeUsed: TravelMode;
+}
+
+/** Distance Matrix element statuses, plus REQUEST_FAILED when the request itself failed */
+export type TravelStatus = 'OK' | 'NOT_FOUND' | 'ZERO_RESULTS' | 'MAX_ROUTE_LENGTH_EXCEEDED' | 'REQUEST_FAILED';
+
+/** One origin → destination result: the leg, or why there is none */
+export type TravelElement = ({ status: 'OK' } & TravelLeg) | { status: Exclude<TravelStatus, 'OK'> };
+
+/** POST /api/distance request body (Express and Vercel) */
+export interface DistanceRequest {
+  /** Coordinates, or an address to geocode */
+  origin: LatLng | string;
+  /** `id` is echoed back, e.g. a place id */
+  destinations: Array<{ id: string; lat: number; lng: number }>;
+  /** Defaults to driving and bicycling */
+  modes?: TravelMode[];
+  /** ISO 8601 time or "now" */
+  departureTime?: string;
+}
+
+/** POST /api/distance response body */
+export interface DistanceResponse {
+  origin: LatLng;
+  modes: TravelMode[];
+  departureTime: string | null;
+  /** The mode Distance Matrix timed each requested mode with; two-wheeler is driving */
+  modesUsed: Partial<Record<TravelMode, TravelMode>>;
+  /** In request order, with an entry for every requested mode */
+  results: Array<{ id: string; travel: Partial<Record<TravelMode, TravelElement>> }>;
+  usage: UsageReport;
+}
+
+// ============================================================================
+// Meetup Types
+// ============================================================================
+
+/**
+ * How meetup results are ranked across players
+ * - max: the worst-off player's distance (fairest)
+ * - total: the sum over all players (least travel overall)
+ */
+export type MeetupRanking = 'max' | 'total';
+
+export const MEETUP_RANKINGS: MeetupRanking[] = ['max', 'total'];
+
+/** A player's starting point: an address, or coordinates */
+export interface MeetupOrigin {
+  /** Shown in the per-player breakdown (default: "Player 1", "Player 2", ...) */
+  name?: string;
+  location?: string;
+  lat?: number;
+  lng?: number;
+}
+
+/** Input accepted by TurfFinder.meetup() */
+export interface MeetupRequest {
+  /** Player origins; strings are addresses, "lat,lng" or "Name=address" */
+  origins: Array<MeetupOrigin | string>;
+  rankBy?: MeetupRanking;
+  /** Rank by driving time (Distance Matrix) instead of straight-line distance */
+  travelTime?: boolean;
+  /** Radius around the players' midpoint to search (default: the city's, else defaultRadiusKm) */
+  radiusKm?: number;
+  sport?: string;
+  keyword?: string;
+  maxResults?: number;
+  detailsLimit?: number;
+  detailLevel?: DetailLevel;
+  minConfidence?: number;
+  budgetUsd?: number;
+}
+
+export interface MeetupPlayerDistance {
+  name: string;
+  distanceKm: number;
+  /** Driving time in seconds; null without travelTime or when Google had no route */
+  travelSeconds: number | null;
+}
+
+/** A turf with the distance from every player; distanceKm is from the midpoint */
+export interface MeetupResult extends TurfResult {
+  players: MeetupPlayerDistance[];
+  maxDistanceKm: number;
+  totalDistanceKm: number;
+  maxTravelSeconds: number | null;
+  totalTravelSeconds: number | null;
+}
+
+export interface MeetupOutput {
+  query: {
+    origins: Array<{ name: string; lat: number; lng: number; location?: string; formattedAddress?: string }>;
+    /** Midpoint of the players that was searched around */
+    center: LatLng;
+    radiusKm: number;
+    rankBy: MeetupRanking;
+    travelTime: boolean;
+    sport: string;
+    keyword: string | null;
+    detailLevel: DetailLevel;
+    city: { id: string; name: string } | null;
+  };
+  generatedAt: string;
+  totalFound: number;
+  results: MeetupResult[];
+  message?: string;
+  diagnostics: SearchDiagnostics;
+  usage: UsageReport;
+}
+
+// ============================================================================
+// Usage Types
+// ============================================================================
+
+/** Billable Google Maps Platform SKUs */
+export type UsageSku =
+  | 'geocoding'
+  | 'nearby_search_pro'
+  | 'nearby_search_enterprise'
+  | 'text_search_pro'
+  | 'text_search_enterprise'
+  | 'place_details_essentials'
+  | 'place_details_pro'
+  | 'place_details_enterprise'
+  | 'place_details_enterprise_atmosphere'
+  | 'place_photos'
+  | 'distance_matrix'
+  | 'distance_matrix_advanced';
+
+export interface SkuUsage {
+  calls: number;
+  estimatedCostUsd: number;
+}
+
+export interface UsageReport {
+  /** Billable calls per SKU */
+  skus: Partial<Record<UsageSku, SkuUsage>>;
+  totalCalls: number;
+  /** Requests answered from cache per Google API (not billed) */
+  cacheHits: Record<string, number>;
+  estimatedCostUsd: number;
+  budgetUsd: number | null;
+  budgetExhausted: boolean;
+  /** Keyword queries skipped because the budget was reached */
+  skippedQueries: number;
+}
+
+export interface UsageSummary {
+  /** When counting started (server start) */
+  since: string;
+  searches: number;
+  skus: Partial<Record<UsageSku, SkuUsage>>;
+  totalCalls: number;
+  cacheHits: Record<string, number>;
+  estimatedCostUsd: number;
+}
+
+/** Google APIs a search can call, as named in plans and cache-hit counts */
+export type PlannedApi = 'Geocoding' | 'Nearby Search' | 'Text Search' | 'Place Details' | 'Distance Matrix';
+
+/** Dry-run estimate of what a search would cost, made without calling Google */
+export interface SearchPlan {
+  dryRun: true;
+  query: SearchOutput['query'];
+  /** Whether the location still has to be geocoded (its search queries are then assumed uncached) */
+  geocodeRequired: boolean;
+  tiles: number;
+  /** Text Search queries per tile, in the order they would run */
+  keywords: string[];
+  /** Upper bound on billable calls per API */
+  calls: Record<PlannedApi, number>;
+  /** Same calls by SKU with estimated cost; cache hits and budget-skipped queries included */
+  estimate: UsageReport;
+  /** Assumptions behind the estimate */
+  notes: string[];
 }
 
 // ============================================================================
 // Cache Types
 // ============================================================================
 
+export type CacheStoreType = 'memory' | 'file';
+
 export interface CacheEntry<T> {
   data: T;
   expiresAt: number;
+  /** When the entry was stored (missing on entries written by older versions) */
+  createdAt?: number;
+}
+
+export interface SearchCircle extends LatLng {
+  radiusMeters: number;
+}
+
+/** Circle of a complete search in the search cache, indexed by the query it ran */
+export interface CachedSearchArea extends SearchCircle {
+  /** Key of the places in the search cache */
+  key: string;
+  expiresAt: number;
+}
+
+/**
+ * Lifetime and size bounds of one cache
+ * Past either size limit the least recently used entries are evicted.
+ */
+export interface CacheLimits {
+  ttlMs: number;
+  /** Maximum number of entries; null for no limit */
+  maxEntries: number | null;
+  /** Approximate maximum size in bytes, from the JSON size of entries; null for no limit */
+  maxBytes: number | null;
+}
+
+export interface CacheStats extends CacheLimits {
+  namespace: string;
+  store: CacheStoreType;
+  /** Entries currently stored, including expired ones not yet pruned */
+  size: number;
+  bytes: number;
+  /** Counters since the process started */
+  hits: number;
+  misses: number;
+  evictions: number;
+  expired: number;
+  /** hits / (hits + misses); null before the first lookup */
+  hitRate: number | null;
+  /** Age of the oldest stored entry; null when empty */
+  oldestEntryAgeMs: number | null;
 }
 
 // ============================================================================
 // Error Types
 // ============================================================================
 
+/**
+ * Stable error codes; each maps to an HTTP status and a CLI exit code (see errors.ts)
+ */
+export type ErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'NOT_FOUND'
+  | 'RATE_LIMITED'
+  | 'GOOGLE_API_ERROR'
+  | 'GEOCODING_ERROR'
+  | 'CONFIGURATION_ERROR'
+  | 'INTERNAL_ERROR';
+
+/** One invalid request field */
+export interface ValidationIssue {
+  /** Field name as the caller wrote it (a CLI flag for the CLI) */
+  field: string;
+  message: string;
+}
+
+/** JSON body of every error response from the HTTP API */
+export interface ErrorBody {
+  /** Short human-readable title, e.g. "Validation error" */
+  error: string;
+  code: ErrorCode;
+  message: string;
+  /** Invalid fields for VALIDATION_ERROR */
+  issues?: ValidationIssue[];
+  /** What to do about a Google API failure, when known */
+  hint?: string;
+}
+
 export class TurfFinderError extends Error {
   constructor(
     message: string,
-    public readonly code: string,
+    public readonly code: ErrorCode,
     public readonly details?: unknown
   ) {
     super(message);
@@ -215,22 +834,95 @@ export class TurfFinderError extends Error {
 }
 
 export class GoogleApiError extends TurfFinderError {
-  constructor(message: string, details?: unknown) {
-    super(message, 'GOOGLE_API_ERROR', details);
+  constructor(
+    message: string,
+    details?: unknown,
+    code: ErrorCode = 'GOOGLE_API_ERROR',
+    /** What to do about it, when known */
+    public readonly hint: string | null = null
+  ) {
+    super(message, code, details);
     this.name = 'GoogleApiError';
   }
 }
 
-export class GeocodingError extends TurfFinderError {
+/** The key's Google Cloud project hasn't enabled the API */
+export class ApiNotEnabledError extends GoogleApiError {
+  constructor(
+    message: string,
+    public readonly apiName: string,
+    public readonly enableUrl: string,
+    details?: unknown
+  ) {
+    super(message, details, 'GOOGLE_API_ERROR', `Enable the ${apiName} for the key's project: ${enableUrl}`);
+    this.name = 'ApiNotEnabledError';
+  }
+}
+
+/** Google refused the key: invalid, or restricted to other APIs, websites or IP addresses */
+export class ApiKeyRejectedError extends GoogleApiError {
+  constructor(
+    message: string,
+    public readonly restricted: boolean,
+    apiName: string,
+    details?: unknown
+  ) {
+    super(
+      message,
+      details,
+      'GOOGLE_API_ERROR',
+      restricted
+        ? `The key's restrictions block this request. Allow the ${apiName} under "API restrictions" and use IP address (not website) restrictions for server-side calls`
+        : 'Check GOOGLE_MAPS_API_KEY: the key is mistyped, deleted or from another project'
+    );
+    this.name = 'ApiKeyRejectedError';
+  }
+}
+
+/** Over a request quota; resetsAt is when requests should succeed again, if known */
+export class QuotaExceededError extends GoogleApiError {
+  constructor(
+    message: string,
+    public readonly resetsAt: string | null,
+    details?: unknown
+  ) {
+    super(
+      message,
+      details,
+      'RATE_LIMITED',
+      resetsAt
+        ? `The quota resets around ${resetsAt}. Retry then, or raise the quota in Google Cloud Console`
+        : 'Retry shortly: per-minute quotas reset within a minute, daily quotas at midnight Pacific Time'
+    );
+    this.name = 'QuotaExceededError';
+  }
+}
+
+/** Google rejected a request parameter */
+export class InvalidArgumentError extends GoogleApiError {
   constructor(message: string, details?: unknown) {
-    super(message, 'GEOCODING_ERROR', details);
+    super(message, details, 'GOOGLE_API_ERROR', 'Google rejected a parameter of the request; the details say which');
+    this.name = 'InvalidArgumentError';
+  }
+}
+
+export class GeocodingError extends TurfFinderError {
+  constructor(message: string, details?: unknown, code: ErrorCode = 'GEOCODING_ERROR') {
+    super(message, code, details);
     this.name = 'GeocodingError';
   }
 }
 
 export class ValidationError extends TurfFinderError {
-  constructor(message: string) {
+  constructor(message: string, public readonly issues: ValidationIssue[] = []) {
     super(message, 'VALIDATION_ERROR');
     this.name = 'ValidationError';
   }
 }
+
+export class ConfigurationError extends TurfFinderError {
+  constructor(message: string) {
+    super(message, 'CONFIGURATION_ERROR');
+    this.name = 'ConfigurationError';
+  }
+}
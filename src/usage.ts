@@ -0,0 +1,189 @@
+/**
+ * API usage and cost accounting
+ * Counts billable Google calls by SKU and estimates their cost from list prices
+ */
+
+import { UsageReport, UsageSku, UsageSummary } from './types';
+
+/**
+ * List price in USD per 1000 calls (first volume tier)
+ * See https://developers.google.com/maps/billing-and-pricing/pricing
+ */
+export const SKU_PRICES_PER_1000: Record<UsageSku, number> = {
+  geocoding: 5,
+  nearby_search_pro: 32,
+  nearby_search_enterprise: 35,
+  text_search_pro: 32,
+  text_search_enterprise: 35,
+  place_details_essentials: 5,
+  place_details_pro: 17,
+  place_details_enterprise: 20,
+  place_details_enterprise_atmosphere: 25,
+  place_photos: 7,
+  // Billed per element (origin × destination), not per request
+  distance_matrix: 5,
+  // Driving with a departure time (traffic) is billed as Distance Matrix Advanced
+  distance_matrix_advanced: 10,
+};
+
+export type FieldMaskTier = 'essentials' | 'pro' | 'enterprise' | 'enterprise_atmosphere';
+
+// Places API (New) fields that move a request into a more expensive tier
+const PRO_FIELDS = ['displayName', 'businessStatus', 'googleMapsUri', 'primaryType', 'primaryTypeDisplayName'];
+const ENTERPRISE_FIELDS = [
+  'nationalPhoneNumber',
+  'internationalPhoneNumber',
+  'rating',
+  'userRatingCount',
+  'regularOpeningHours',
+  'currentOpeningHours',
+  'websiteUri',
+  'priceLevel',
+];
+const ATMOSPHERE_FIELDS = ['reviews', 'editorialSummary', 'generativeSummary'];
+
+/**
+ * Work out the billing tier of a Places API (New) field mask - the most expensive field wins
+ */
+export function getFieldMaskTier(fieldMask: string): FieldMaskTier {
+  const fields = fieldMask.split(',').map((field) => field.trim().replace(/^places\./, ''));
+  if (fields.some((field) => ATMOSPHERE_FIELDS.includes(field))) return 'enterprise_atmosphere';
+  if (fields.some((field) => ENTERPRISE_FIELDS.includes(field))) return 'enterprise';
+  if (fields.some((field) => PRO_FIELDS.includes(field))) return 'pro';
+  return 'essentials';
+}
+
+/**
+ * SKU billed for a Place Details request with the given field mask
+ */
+export function getPlaceDetailsSku(fieldMask: string): UsageSku {
+  return `place_details_${getFieldMaskTier(fieldMask)}` as UsageSku;
+}
+
+/**
+ * SKU billed for a Nearby or Text Search request with the given field mask
+ * (search has no separate Atmosphere price in our table, so it is billed as Enterprise)
+ */
+export function getSearchSku(kind: 'nearby_search' | 'text_search', fieldMask: string): UsageSku {
+  const tier = getFieldMaskTier(fieldMask);
+  return `${kind}_${tier === 'essentials' || tier === 'pro' ? 'pro' : 'enterprise'}` as UsageSku;
+}
+
+export function estimateCostUsd(sku: UsageSku, calls: number): number {
+  return (SKU_PRICES_PER_1000[sku] * calls) / 1000;
+}
+
+function roundUsd(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Per-search usage counter with an optional budget cap
+ */
+export class UsageTracker {
+  private readonly calls = new Map<UsageSku, number>();
+  private readonly cacheHits = new Map<string, number>();
+  private skippedQueries = 0;
+
+  constructor(public readonly budgetUsd: number | null = null) {}
+
+  recordCall(sku: UsageSku, count: number = 1): void {
+    this.calls.set(sku, (this.calls.get(sku) || 0) + count);
+  }
+
+  /**
+   * Record a request answered from cache (not billed)
+   * @param api - Google API name, e.g. "Text Search"
+   */
+  recordCacheHit(api: string): void {
+    this.cacheHits.set(api, (this.cacheHits.get(api) || 0) + 1);
+  }
+
+  /**
+   * Record keyword queries that were skipped because the budget ran out
+   */
+  recordSkippedQuery(count: number = 1): void {
+    this.skippedQueries += count;
+  }
+
+  estimatedCostUsd(): number {
+    let total = 0;
+    for (const [sku, calls] of this.calls) {
+      total += estimateCostUsd(sku, calls);
+    }
+    return total;
+  }
+
+  /**
+   * Check whether the budget has been used up
+   */
+  isBudgetExhausted(): boolean {
+    return this.budgetUsd !== null && this.estimatedCostUsd() >= this.budgetUsd;
+  }
+
+  toReport(): UsageReport {
+    const skus: UsageReport['skus'] = {};
+    let totalCalls = 0;
+    for (const [sku, calls] of this.calls) {
+      skus[sku] = { calls, estimatedCostUsd: roundUsd(estimateCostUsd(sku, calls)) };
+      totalCalls += calls;
+    }
+
+    return {
+      skus,
+      totalCalls,
+      cacheHits: Object.fromEntries(this.cacheHits),
+      estimatedCostUsd: roundUsd(this.estimatedCostUsd()),
+      budgetUsd: this.budgetUsd,
+      budgetExhausted: this.isBudgetExhausted(),
+      skippedQueries: this.skippedQueries,
+    };
+  }
+}
+
+/**
+ * Running totals across many searches (used by the server)
+ */
+export class UsageLedger {
+  private searches = 0;
+  private readonly calls = new Map<UsageSku, number>();
+  private readonly cacheHits = new Map<string, number>();
+  private readonly since = new Date().toISOString();
+
+  /**
+   * Add a search's usage report to the totals
+   * @param countsAsSearch - false for standalone calls such as photo proxy requests
+   */
+  add(report: UsageReport, countsAsSearch: boolean = true): void {
+    if (countsAsSearch) {
+      this.searches++;
+    }
+    for (const [sku, entry] of Object.entries(report.skus) as Array<[UsageSku, { calls: number }]>) {
+      this.calls.set(sku, (this.calls.get(sku) || 0) + entry.calls);
+    }
+    for (const [api, hits] of Object.entries(report.cacheHits)) {
+      this.cacheHits.set(api, (this.cacheHits.get(api) || 0) + hits);
+    }
+  }
+
+  summary(): UsageSummary {
+    const skus: UsageSummary['skus'] = {};
+    let totalCalls = 0;
+    let totalCost = 0;
+    for (const [sku, calls] of this.calls) {
+      const cost = estimateCostUsd(sku, calls);
+      skus[sku] = { calls, estimatedCostUsd: roundUsd(cost) };
+      totalCalls += calls;
+      totalCost += cost;
+    }
+
+    return {
+      since: this.since,
+      searches: this.searches,
+      skus,
+      totalCalls,
+      cacheHits: Object.fromEntries(this.cacheHits),
+      estimatedCostUsd: roundUsd(totalCost),
+    };
+  }
+}
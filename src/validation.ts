@@ -0,0 +1,194 @@
+/**
+ * Request schemas
+ * Type- and range-checks every field of a search, meetup or distance request before
+ * anything else looks at it, so the CLI, the Express server and the Vercel functions
+ * reject the same inputs with the same messages
+ */
+
+import {
+  DETAIL_LEVELS,
+  DistanceRequest,
+  MEETUP_RANKINGS,
+  MeetupRequest,
+  SearchRequest,
+  TRAVEL_MODES,
+  ValidationError,
+  ValidationIssue,
+} from './types';
+
+/** Largest radius accepted by the Places API location restriction */
+export const MAX_RADIUS_KM = 50;
+
+type JsonType = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+interface FieldRule {
+  type: JsonType | JsonType[];
+  required?: boolean;
+  /** Numbers: whole numbers only */
+  integer?: boolean;
+  /** Numbers: inclusive lower bound */
+  min?: number;
+  /** Numbers: exclusive lower bound */
+  above?: number;
+  /** Numbers: inclusive upper bound */
+  max?: number;
+  /** Strings: the allowed values */
+  oneOf?: readonly string[];
+}
+
+/** A rule for every field of the request type */
+type RequestSchema<T> = { [K in keyof T]-?: FieldRule };
+
+const RADIUS_RULE: FieldRule = { type: 'number', above: 0, max: MAX_RADIUS_KM };
+
+const SEARCH_REQUEST_SCHEMA: RequestSchema<SearchRequest> = {
+  location: { type: 'string' },
+  lat: { type: 'number', min: -90, max: 90 },
+  lng: { type: 'number', min: -180, max: 180 },
+  radiusKm: RADIUS_RULE,
+  sport: { type: 'string' },
+  keyword: { type: 'string' },
+  maxResults: { type: 'number', integer: true, min: 1 },
+  detailsLimit: { type: 'number', integer: true, min: 0 },
+  detailLevel: { type: 'string', oneOf: DETAIL_LEVELS },
+  maxPages: { type: 'number', integer: true, min: 1 },
+  tiled: { type: 'boolean' },
+  tileRadiusKm: { type: 'number', above: 0 },
+  minConfidence: { type: 'number', min: 0, max: 1 },
+  explain: { type: 'boolean' },
+  budgetUsd: { type: 'number', above: 0 },
+  dryRun: { type: 'boolean' },
+  area: { type: 'object' },
+  locality: { type: 'string' },
+  city: { type: 'string' },
+  travelMode: { type: 'string', oneOf: TRAVEL_MODES },
+  maxTravelMinutes: { type: 'number', above: 0 },
+  departureTime: { type: 'string' },
+};
+
+const MEETUP_REQUEST_SCHEMA: RequestSchema<MeetupRequest> = {
+  origins: { type: 'array', required: true },
+  rankBy: { type: 'string', oneOf: MEETUP_RANKINGS },
+  travelTime: { type: 'boolean' },
+  radiusKm: RADIUS_RULE,
+  sport: { type: 'string' },
+  keyword: { type: 'string' },
+  maxResults: { type: 'number', integer: true, min: 1 },
+  detailsLimit: { type: 'number', integer: true, min: 0 },
+  detailLevel: { type: 'string', oneOf: DETAIL_LEVELS },
+  minConfidence: { type: 'number', min: 0, max: 1 },
+  budgetUsd: { type: 'number', above: 0 },
+};
+
+const DISTANCE_REQUEST_SCHEMA: RequestSchema<DistanceRequest> = {
+  origin: { type: ['string', 'object'], required: true },
+  destinations: { type: 'array', required: true },
+  modes: { type: 'array' },
+  departureTime: { type: 'string' },
+};
+
+/**
+ * Check a search request
+ * @param fieldLabel - How to name a field in messages (the CLI uses its flags)
+ * @returns The known fields only
+ * @throws ValidationError listing every invalid field
+ */
+export function validateSearchRequest(input: unknown, fieldLabel?: (field: string) => string): SearchRequest {
+  return validateFields(SEARCH_REQUEST_SCHEMA, input, fieldLabel);
+}
+
+export function validateMeetupRequest(input: unknown): MeetupRequest {
+  return validateFields(MEETUP_REQUEST_SCHEMA, input);
+}
+
+export function validateDistanceRequest(input: unknown): DistanceRequest {
+  return validateFields(DISTANCE_REQUEST_SCHEMA, input);
+}
+
+/**
+ * The error to report for a request body that failed to parse
+ * Express's body parser fails with `entity.parse.failed` and Vercel's `req.body` with a
+ * 400 error; both become a ValidationError, anything else is passed through
+ */
+export function toBodyError(error: unknown): unknown {
+  const { type, statusCode } = (error || {}) as { type?: string; statusCode?: number };
+  if (error instanceof SyntaxError || type === 'entity.parse.failed' || statusCode === 400) {
+    return new ValidationError('The request body must be valid JSON', [{ field: 'body', message: 'must be valid JSON' }]);
+  }
+  return error;
+}
+
+/**
+ * Read a request body whose parsing may throw (Vercel parses `req.body` on first access)
+ */
+export function readJsonBody(read: () => unknown): unknown {
+  try {
+    return read() || {};
+  } catch (error) {
+    throw toBodyError(error);
+  }
+}
+
+function validateFields<T>(
+  schema: RequestSchema<T>,
+  input: unknown,
+  fieldLabel: (field: string) => string = (field) => field
+): T {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new ValidationError('The request must be a JSON object');
+  }
+
+  const issues: ValidationIssue[] = [];
+  const output: Record<string, unknown> = {};
+
+  for (const [field, rule] of Object.entries(schema) as Array<[string, FieldRule]>) {
+    // JSON has no undefined, so null stands for a field that wasn't given
+    const value = (input as Record<string, unknown>)[field] ?? undefined;
+    const message = value === undefined ? (rule.required ? 'is required' : null) : checkValue(value, rule);
+
+    if (message) {
+      issues.push({ field: fieldLabel(field), message });
+    } else if (value !== undefined) {
+      output[field] = value;
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new ValidationError(issues.map(({ field, message }) => `${field} ${message}`).join('; '), issues);
+  }
+
+  return output as T;
+}
+
+/**
+ * @returns Why the value breaks the rule, or null when it doesn't
+ */
+function checkValue(value: unknown, rule: FieldRule): string | null {
+  const types = Array.isArray(rule.type) ? rule.type : [rule.type];
+  const type = Array.isArray(value) ? 'array' : typeof value;
+
+  if (!types.includes(type as JsonType) || (type === 'number' && !Number.isFinite(value))) {
+    return `must be ${types.map((t) => (t === 'array' || t === 'object' ? `an ${t}` : `a ${t}`)).join(' or ')}`;
+  }
+
+  if (typeof value === 'number') {
+    const tooLow = (rule.min !== undefined && value < rule.min) || (rule.above !== undefined && value <= rule.above);
+    const tooHigh = rule.max !== undefined && value > rule.max;
+    if ((rule.integer && !Number.isInteger(value)) || tooLow || tooHigh) {
+      return `must be ${describeNumber(rule)}`;
+    }
+  }
+
+  if (typeof value === 'string' && rule.oneOf && !rule.oneOf.includes(value)) {
+    return `must be one of: ${rule.oneOf.join(', ')}`;
+  }
+
+  return null;
+}
+
+function describeNumber({ integer, min, above, max }: FieldRule): string {
+  const lower = above !== undefined ? `greater than ${above}` : min !== undefined ? `at least ${min}` : null;
+  const upper = max !== undefined ? `at most ${max}` : null;
+  const bounds = [lower, upper].filter(Boolean).join(' and ');
+  return `${integer ? 'an integer' : 'a number'}${bounds ? ` ${bounds}` : ''}`;
+}
@@ -0,0 +1,54 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { getLocality, parseAreaGeoJson, resolveSearchArea } from '../src/areas';
+import { getAreaBoundingCircle, isPointInArea } from '../src/distance';
+import { AreaGeometry, ValidationError } from '../src/types';
+
+// 2 km square around HSR Layout with a 500 m hole in the middle
+const SQUARE_WITH_HOLE: AreaGeometry = {
+  type: 'Polygon',
+  coordinates: [
+    [[77.635, 12.903], [77.655, 12.903], [77.655, 12.921], [77.635, 12.921], [77.635, 12.903]],
+    [[77.643, 12.910], [77.647, 12.910], [77.647, 12.914], [77.643, 12.914], [77.643, 12.910]],
+  ],
+};
+
+describe('Search areas', () => {
+  it('tests points against polygon rings and holes', () => {
+    assert.ok(isPointInArea({ lat: 12.905, lng: 77.637 }, SQUARE_WITH_HOLE));
+    assert.ok(!isPointInArea({ lat: 12.912, lng: 77.645 }, SQUARE_WITH_HOLE));
+    assert.ok(!isPointInArea({ lat: 12.93, lng: 77.645 }, SQUARE_WITH_HOLE));
+  });
+
+  it('matches any part of a MultiPolygon', () => {
+    const koramangala = getLocality('Koramangala').geometry;
+    const hsr = getLocality('hsr layout').geometry;
+    const both: AreaGeometry = {
+      type: 'MultiPolygon',
+      coordinates: [koramangala, hsr].map((geometry) => (geometry.type === 'Polygon' ? geometry.coordinates : [])),
+    };
+
+    assert.ok(isPointInArea({ lat: 12.935, lng: 77.625 }, both));
+    assert.ok(isPointInArea({ lat: 12.912, lng: 77.64 }, both));
+    assert.ok(!isPointInArea({ lat: 12.97, lng: 77.64 }, both));
+  });
+
+  it('covers the whole area with its bounding circle', () => {
+    const { center, radiusKm } = getAreaBoundingCircle(SQUARE_WITH_HOLE);
+
+    assert.ok(Math.abs(center.lat - 12.912) < 1e-9 && Math.abs(center.lng - 77.645) < 1e-9);
+    assert.ok(radiusKm > 1.3 && radiusKm < 1.5);
+  });
+
+  it('accepts Features and rejects malformed GeoJSON', () => {
+    const feature = { type: 'Feature', properties: { name: 'Shuttle zone' }, geometry: SQUARE_WITH_HOLE };
+    assert.equal(parseAreaGeoJson(feature).name, 'Shuttle zone');
+    assert.equal(resolveSearchArea(undefined, 'Indiranagar')?.name, 'Indiranagar');
+
+    assert.throws(() => parseAreaGeoJson({ type: 'Point', coordinates: [77.6, 12.9] }), ValidationError);
+    assert.throws(() => parseAreaGeoJson({ type: 'Polygon', coordinates: [[[77.6, 12.9], [77.7, 12.9]]] }), ValidationError);
+    assert.throws(() => resolveSearchArea(SQUARE_WITH_HOLE, 'HSR Layout'), ValidationError);
+    assert.throws(() => getLocality('Atlantis'), /Available localities/);
+  });
+});
@@ -0,0 +1,168 @@
+import { after, afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { FileCacheStore, MemoryCacheStore, TtlCache, setCacheStore } from '../src/cache';
+import { PhotoCache } from '../src/photos';
+
+describe('TtlCache stores', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'turf-cache-'));
+
+  afterEach(() => {
+    setCacheStore(new MemoryCacheStore());
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps namespaces apart in the file store', () => {
+    setCacheStore(new FileCacheStore(dir));
+    const geocodes = new TtlCache<string>('geocode-test');
+    const details = new TtlCache<string>('details-test');
+
+    geocodes.set('same-key', 'geocode');
+    details.set('same-key', 'details');
+
+    assert.equal(geocodes.get('same-key'), 'geocode');
+    assert.equal(details.get('same-key'), 'details');
+
+    geocodes.clear();
+    assert.equal(geocodes.get('same-key'), null);
+    assert.equal(details.get('same-key'), 'details');
+  });
+
+  it('persists entries across store instances', () => {
+    setCacheStore(new FileCacheStore(dir));
+    new TtlCache<{ lat: number }>('persist-test').set('hsr', { lat: 12.9121 });
+
+    setCacheStore(new FileCacheStore(dir));
+    assert.deepEqual(new TtlCache<{ lat: number }>('persist-test').get('hsr'), { lat: 12.9121 });
+  });
+
+  it('expires and prunes entries by TTL', () => {
+    for (const store of [new MemoryCacheStore(), new FileCacheStore(dir)]) {
+      setCacheStore(store);
+      const cache = new TtlCache<number>(`ttl-test-${store.type}`, { ttlMs: -1 });
+      cache.set('a', 1);
+      cache.set('b', 2);
+
+      assert.equal(cache.stats().size, 2);
+      assert.equal(cache.prune(), 2);
+      assert.equal(cache.stats().size, 0);
+
+      cache.set('c', 3);
+      assert.equal(cache.get('c'), null, `${store.type} store returns expired entries`);
+    }
+  });
+
+  it('evicts the least recently used entries past maxEntries', () => {
+    setCacheStore(new MemoryCacheStore());
+    const cache = new TtlCache<number>('lru-test', { maxEntries: 2 });
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.set('c', 3);
+
+    assert.equal(cache.get('b'), null);
+    assert.equal(cache.get('a'), 1);
+    assert.equal(cache.get('c'), 3);
+    assert.equal(cache.stats().evictions, 1);
+  });
+
+  it('keeps the file store tallies right across overwrites and deletes', () => {
+    setCacheStore(new FileCacheStore(dir));
+    const cache = new TtlCache<number>('tally-test', { maxEntries: 2 });
+    cache.set('a', 1);
+    cache.set('a', 2);
+    cache.set('b', 3);
+    cache.delete('a');
+    cache.set('c', 4);
+    assert.equal(cache.stats().evictions, 0);
+
+    cache.set('d', 5);
+    assert.equal(cache.stats().evictions, 1);
+    assert.equal(cache.stats().size, 2);
+  });
+
+  it('keeps the tally of a new file store right when its first change is a delete', () => {
+    setCacheStore(new FileCacheStore(dir));
+    const cache = new TtlCache<number>('fresh-tally-test', { maxEntries: 2 });
+    cache.set('a', 1);
+    cache.set('b', 2);
+
+    // A second process on the same directory starts without a tally
+    setCacheStore(new FileCacheStore(dir));
+    cache.delete('a');
+    cache.set('c', 3);
+    cache.set('d', 4);
+
+    assert.equal(cache.stats().size, 2);
+  });
+
+  it('bounds the approximate size in bytes', () => {
+    for (const store of [new MemoryCacheStore(), new FileCacheStore(dir)]) {
+      setCacheStore(store);
+      const cache = new TtlCache<string>(`bytes-test-${store.type}`, { maxBytes: 1000 });
+      for (let i = 0; i < 10; i++) {
+        cache.set(`key-${i}`, 'x'.repeat(200));
+      }
+
+      const stats = cache.stats();
+      assert.ok(stats.bytes <= 1000, `${store.type} store holds ${stats.bytes} bytes`);
+      assert.ok(stats.size < 10);
+      assert.equal(stats.evictions, 10 - stats.size);
+      assert.equal(cache.get('key-9'), 'x'.repeat(200));
+    }
+  });
+
+  it('counts hits, misses and expirations', () => {
+    setCacheStore(new MemoryCacheStore());
+    const cache = new TtlCache<number>('counter-test');
+    cache.set('a', 1);
+    cache.get('a');
+    cache.get('missing');
+    assert.equal(cache.peek('a'), 1);
+
+    cache.configure({ ttlMs: -1 });
+    cache.set('b', 2);
+    cache.get('b');
+
+    const { hits, misses, expired, hitRate } = cache.stats();
+    assert.deepEqual({ hits, misses, expired }, { hits: 1, misses: 2, expired: 1 });
+    assert.equal(hitRate, 1 / 3);
+  });
+
+  it('reports the age of the oldest entry', () => {
+    for (const store of [new MemoryCacheStore(), new FileCacheStore(dir)]) {
+      setCacheStore(store);
+      const cache = new TtlCache<number>(`age-test-${store.type}`);
+      assert.equal(cache.stats().oldestEntryAgeMs, null);
+
+      cache.set('a', 1);
+      const { oldestEntryAgeMs } = cache.stats();
+      assert.ok(oldestEntryAgeMs !== null && oldestEntryAgeMs >= 0 && oldestEntryAgeMs < 5000);
+    }
+  });
+});
+
+describe('PhotoCache', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'turf-photos-'));
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps the photo it just wrote even when it is over the size limit', () => {
+    const cache = new PhotoCache(dir, 10);
+    cache.set('older', 'image/jpeg', Buffer.alloc(8));
+    const photo = cache.set('newer', 'image/png', Buffer.alloc(16));
+
+    assert.equal(photo.data?.length, 16);
+    assert.ok(fs.existsSync(photo.filePath));
+    assert.equal(cache.get('older'), null);
+    assert.equal(cache.get('newer')?.cacheHit, true);
+  });
+});
@@ -0,0 +1,70 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { startEmulator, RunningEmulator } from '../src/emulator/server';
+import { TurfFinder } from '../src/finder';
+import { clearCaches, setApiBaseUrl, setApiKey } from '../src/google';
+import { startRecording, startReplay, stopCassette } from '../src/cassette';
+
+describe('cassette record and replay', () => {
+  let emulator: RunningEmulator;
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'turf-cassette-'));
+  const cassetteFile = path.join(dir, 'search.json');
+  const finder = new TurfFinder();
+  const request = { location: 'Koramangala', radiusKm: 3, detailsLimit: 3 };
+
+  before(async () => {
+    emulator = await startEmulator({ port: 0 });
+    setApiBaseUrl(emulator.url);
+    setApiKey('secret-test-key');
+  });
+
+  after(async () => {
+    stopCassette();
+    setApiBaseUrl(null);
+    await emulator.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('records every request with the API key redacted', async () => {
+    clearCaches();
+    startRecording(cassetteFile);
+    await finder.search(request);
+    stopCassette();
+
+    const contents = fs.readFileSync(cassetteFile, 'utf-8');
+    const cassette = JSON.parse(contents) as { interactions: Array<{ request: { url: string } }> };
+    assert.ok(cassette.interactions.length > 0);
+    assert.ok(!contents.includes('secret-test-key'));
+    assert.ok(cassette.interactions.some((interaction) => interaction.request.url.includes('key=REDACTED')));
+  });
+
+  it('replays the search without the network', async () => {
+    clearCaches();
+    const live = await finder.search(request);
+
+    // Nothing is listening at the emulator URL any more
+    await emulator.close();
+    clearCaches();
+    startReplay(cassetteFile);
+    const replayed = await finder.search(request);
+    stopCassette();
+    emulator = await startEmulator({ port: 0 });
+    setApiBaseUrl(emulator.url);
+
+    assert.deepEqual(
+      replayed.results.map((result) => result.placeId),
+      live.results.map((result) => result.placeId)
+    );
+  });
+
+  it('fails clearly when a request was not recorded', async () => {
+    clearCaches();
+    startReplay(cassetteFile);
+    await assert.rejects(finder.search({ location: 'Indiranagar', radiusKm: 3 }), /No recorded response/);
+    stopCassette();
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { findCityForPoint, findCityInText, getCity, getCityGeocodeOptions, getCitySportProfile } from '../src/cities';
+import { TurfFinder } from '../src/finder';
+import { getSportProfile } from '../src/profiles';
+import { ValidationError } from '../src/types';
+
+describe('City registry', () => {
+  it('finds cities by name, alias, coordinates and location text', () => {
+    assert.equal(getCity('Bengaluru').id, 'bangalore');
+    assert.equal(getCity('gurgaon').id, 'delhi');
+    assert.equal(findCityForPoint(18.52, 73.86)?.id, 'pune');
+    assert.equal(findCityForPoint(12.97, 77.59)?.id, 'bangalore');
+    assert.equal(findCityForPoint(0, 0), null);
+    assert.equal(findCityInText('Banjara Hills, Hyderabad')?.id, 'hyderabad');
+    assert.equal(findCityInText('Some Street'), null);
+    assert.throws(() => getCity('Atlantis'), ValidationError);
+  });
+
+  it('biases geocoding and tweaks keywords per city', () => {
+    const { region, bounds } = getCityGeocodeOptions('mumbai');
+    assert.equal(region, 'in');
+    assert.ok(bounds && bounds.southwest.lat < 19.07 && bounds.northeast.lat > 19.07);
+    assert.deepEqual(getCityGeocodeOptions(null), {});
+
+    const football = getCitySportProfile('football', 'kolkata');
+    assert.ok(football.keywords.includes('football club'));
+    assert.deepEqual(getCitySportProfile('football', 'jaipur'), getSportProfile('football'));
+  });
+
+  it('resolves the city and its default radius for a query', () => {
+    const finder = new TurfFinder();
+
+    const mumbai = finder.validateRequest({ lat: 19.07, lng: 72.88 });
+    assert.equal(mumbai.city, 'mumbai');
+    assert.equal(mumbai.radiusKm, getCity('mumbai').defaultRadiusKm);
+
+    assert.equal(finder.validateRequest({ location: 'Andheri, Mumbai', radiusKm: 2 }).radiusKm, 2);
+    assert.equal(finder.validateRequest({ location: 'Sector 29', city: 'Noida' }).city, 'delhi');
+    assert.equal(finder.validateRequest({ lat: 51.5, lng: -0.12 }).city, null);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { classifyPlace, classifyPlaces } from '../src/classifier';
+import { getSportProfile } from '../src/profiles';
+import { NearbySearchPlace } from '../src/types';
+
+function place(name: string, types: string[] = []): NearbySearchPlace {
+  return { id: name.toLowerCase().replace(/\W+/g, '-'), displayName: { text: name }, types };
+}
+
+describe('Relevance classifier', () => {
+  const profile = getSportProfile('any');
+
+  it('matches excluded words only as whole words', () => {
+    const { kept, classifications } = classifyPlaces(
+      ['Barca Football Academy', 'Spartans Arena', 'Super Bowl Turf', 'Strike Zone Bowling', 'Hops Sports Bar'].map((name) => place(name)),
+      profile,
+      0.5
+    );
+
+    assert.deepEqual(
+      kept.map((p) => p.displayName?.text),
+      ['Barca Football Academy', 'Spartans Arena', 'Super Bowl Turf']
+    );
+    assert.deepEqual(
+      classifications.map((c) => c.confidence),
+      [1, 0.65, 0.55, 0.2, 0.35]
+    );
+
+    // "bowl" still counts against the turf, just not enough to drop it
+    const [, spartans, superBowl] = classifications;
+    assert.ok(!spartans.reasons.some((reason) => reason.includes('excluded')));
+    assert.ok(superBowl.reasons.includes('name mentions excluded "bowl"'));
+  });
+
+  it('keeps a place scoring exactly the threshold and drops one just below', () => {
+    const neutral = classifyPlace(place('Greenfield'), profile, 0.5);
+    assert.equal(neutral.confidence, 0.5);
+    assert.deepEqual(neutral.reasons, ['no signals either way']);
+    assert.equal(neutral.kept, true);
+    assert.equal(classifyPlace(place('Greenfield'), profile, 0.51).kept, false);
+
+    assert.equal(classifyPlace(place('Super Bowl Turf'), profile, 0.55).kept, true);
+    assert.equal(classifyPlace(place('Super Bowl Turf'), profile, 0.56).kept, false);
+  });
+
+  it('lets an excluded Google type outweigh a turf name', () => {
+    const bowling = classifyPlace(place('Turf Bowling Alley', ['bowling_alley']), profile, 0.5);
+    assert.equal(bowling.confidence, 0.05);
+    assert.equal(bowling.kept, false);
+  });
+});
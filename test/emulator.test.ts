@@ -0,0 +1,111 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { startEmulator, RunningEmulator } from '../src/emulator/server';
+
+const HSR = { latitude: 12.9121, longitude: 77.6446 };
+
+describe('Google Maps Platform emulator', () => {
+  let emulator: RunningEmulator;
+
+  before(async () => {
+    emulator = await startEmulator({ port: 0 });
+  });
+
+  after(async () => {
+    await emulator.close();
+  });
+
+  const searchText = (body: Record<string, unknown>, fieldMask = 'places.id,places.displayName,nextPageToken') =>
+    fetch(`${emulator.url}/v1/places:searchText`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Goog-Api-Key': 'test', 'X-Goog-FieldMask': fieldMask },
+      body: JSON.stringify(body),
+    });
+
+  it('returns only the fields in the field mask', async () => {
+    const response = await searchText(
+      { textQuery: 'turf', locationRestriction: { circle: { center: HSR, radius: 3000 } } },
+      'places.id,places.displayName'
+    );
+    const data = (await response.json()) as { places: Array<Record<string, unknown>>; nextPageToken?: string };
+
+    assert.equal(response.status, 200);
+    assert.ok(data.places.length > 0);
+    for (const place of data.places) {
+      assert.deepEqual(Object.keys(place).sort(), ['displayName', 'id']);
+    }
+    assert.equal(data.nextPageToken, undefined, 'page token is only returned when it is in the mask');
+  });
+
+  it('rejects requests without a field mask or API key', async () => {
+    const noMask = await fetch(`${emulator.url}/v1/places/emu_place_01`, { headers: { 'X-Goog-Api-Key': 'test' } });
+    assert.equal(noMask.status, 400);
+
+    const noKey = await fetch(`${emulator.url}/v1/places/emu_place_01`, { headers: { 'X-Goog-FieldMask': 'id' } });
+    assert.equal(noKey.status, 403);
+  });
+
+  it('keeps results inside the locationRestriction circle', async () => {
+    const response = await searchText({ textQuery: 'turf', locationRestriction: { circle: { center: HSR, radius: 5000 } } });
+    const data = (await response.json()) as { places: Array<{ id: string; displayName: { text: string } }> };
+
+    assert.ok(!data.places.some((place) => place.displayName.text === 'Whitefield Turf Arena'));
+  });
+
+  it('pages through results with page tokens scoped to the query', async () => {
+    const body = { textQuery: 'turf', pageSize: 5, locationRestriction: { circle: { center: HSR, radius: 5000 } } };
+    const first = (await (await searchText(body)).json()) as { places: Array<{ id: string }>; nextPageToken: string };
+    assert.equal(first.places.length, 5);
+    assert.ok(first.nextPageToken);
+
+    const second = (await (await searchText({ ...body, pageToken: first.nextPageToken })).json()) as {
+      places: Array<{ id: string }>;
+    };
+    assert.equal(second.places.length, 5);
+    assert.ok(second.places.every((place) => !first.places.some((seen) => seen.id === place.id)));
+
+    const misused = await searchText({ ...body, textQuery: 'cricket', pageToken: first.nextPageToken });
+    assert.equal(misused.status, 400);
+  });
+
+  it('serves Place Details, photos and unknown places like Google', async () => {
+    const details = await fetch(`${emulator.url}/v1/places/emu_place_01`, {
+      headers: { 'X-Goog-Api-Key': 'test', 'X-Goog-FieldMask': 'id,nationalPhoneNumber' },
+    });
+    assert.deepEqual(await details.json(), { id: 'emu_place_01', nationalPhoneNumber: '080 4123 4501' });
+
+    const missing = await fetch(`${emulator.url}/v1/places/nope`, {
+      headers: { 'X-Goog-Api-Key': 'test', 'X-Goog-FieldMask': 'id' },
+    });
+    assert.equal(missing.status, 404);
+
+    const photo = await fetch(`${emulator.url}/v1/places/emu_place_01/photos/photo_1/media?maxWidthPx=400`, {
+      headers: { 'X-Goog-Api-Key': 'test' },
+    });
+    assert.equal(photo.status, 200);
+    assert.equal(photo.headers.get('content-type'), 'image/png');
+  });
+
+  it('geocodes fixture addresses and estimates Distance Matrix travel', async () => {
+    const geocode = (await (await fetch(`${emulator.url}/maps/api/geocode/json?address=HSR%20Layout&key=test`)).json()) as {
+      status: string;
+      results: Array<{ geometry: { location: { lat: number } } }>;
+    };
+    assert.equal(geocode.status, 'OK');
+    assert.equal(geocode.results[0].geometry.location.lat, 12.9121);
+
+    const unknown = (await (await fetch(`${emulator.url}/maps/api/geocode/json?address=Atlantis&key=test`)).json()) as {
+      status: string;
+    };
+    assert.equal(unknown.status, 'ZERO_RESULTS');
+
+    const matrix = (await (
+      await fetch(`${emulator.url}/maps/api/distancematrix/json?origins=12.9121,77.6446&destinations=Koramangala|Atlantis&mode=driving&key=test`)
+    ).json()) as { status: string; rows: Array<{ elements: Array<{ status: string; distance?: { value: number } }> }> };
+    assert.equal(matrix.status, 'OK');
+    assert.equal(matrix.rows[0].elements[0].status, 'OK');
+    assert.ok((matrix.rows[0].elements[0].distance?.value || 0) > 0);
+    assert.equal(matrix.rows[0].elements[1].status, 'NOT_FOUND');
+  });
+});
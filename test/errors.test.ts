@@ -0,0 +1,181 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+
+import { startEmulator, RunningEmulator } from '../src/emulator/server';
+import { TurfFinder } from '../src/finder';
+import { clearCaches, geocodeLocation, setApiBaseUrl, setApiKey } from '../src/google';
+import { parseGoogleError, toErrorResponse } from '../src/errors';
+import { SearchContext } from '../src/context';
+import {
+  ApiKeyRejectedError,
+  ApiNotEnabledError,
+  GoogleApiError,
+  InvalidArgumentError,
+  QuotaExceededError,
+} from '../src/types';
+
+describe('Google error payloads', () => {
+  it('reads the legacy status and error_message form', () => {
+    const disabled = parseGoogleError('Geocoding', 200, { status: 'REQUEST_DENIED', error_message: 'This API project is not authorized to use this API.' });
+    assert.ok(disabled instanceof ApiNotEnabledError);
+    assert.equal(disabled.message, "Geocoding failed: the Geocoding API is not enabled for the key's project (REQUEST_DENIED)");
+    assert.match(disabled.hint as string, /apis\/library\/geocoding-backend\.googleapis\.com/);
+
+    const restricted = parseGoogleError('Distance Matrix', 200, { status: 'REQUEST_DENIED', error_message: 'API keys with referer restrictions cannot be used with this API.' });
+    assert.ok(restricted instanceof ApiKeyRejectedError && restricted.restricted);
+    assert.match(restricted.hint as string, /Distance Matrix API/);
+
+    const invalid = parseGoogleError('Geocoding', 200, { status: 'REQUEST_DENIED', error_message: 'The provided API key is invalid.' });
+    assert.ok(invalid instanceof ApiKeyRejectedError && !invalid.restricted);
+  });
+
+  it('reads the Places (New) error.status and details form', () => {
+    const activationUrl = 'https://console.developers.google.com/apis/api/places.googleapis.com/overview?project=42';
+    const disabled = parseGoogleError('Text Search', 403, {
+      error: {
+        code: 403,
+        status: 'PERMISSION_DENIED',
+        message: 'Places API (New) has not been used in project 42 before or it is disabled.',
+        details: [{ '@type': 'type.googleapis.com/google.rpc.ErrorInfo', reason: 'SERVICE_DISABLED', metadata: { activationUrl } }],
+      },
+    });
+    assert.ok(disabled instanceof ApiNotEnabledError);
+    assert.equal(disabled.enableUrl, activationUrl);
+    assert.equal(disabled.apiName, 'Places API (New)');
+
+    const argument = parseGoogleError('Nearby Search', 400, {
+      error: {
+        code: 400,
+        status: 'INVALID_ARGUMENT',
+        message: 'Invalid request.',
+        details: [{ '@type': 'type.googleapis.com/google.rpc.BadRequest', fieldViolations: [{ field: 'max_result_count', description: 'Must be at most 20' }] }],
+      },
+    });
+    assert.ok(argument instanceof InvalidArgumentError);
+    assert.match(argument.message, /max_result_count: Must be at most 20/);
+
+    const missing = parseGoogleError('Place Photos', 404, { error: { code: 404, status: 'NOT_FOUND', message: 'Photo was not found.' } });
+    assert.equal(missing.code, 'NOT_FOUND');
+    assert.equal(parseGoogleError('Text Search', 500, {}).constructor, GoogleApiError);
+  });
+
+  it('says when an exceeded quota resets', () => {
+    const before = Date.now();
+    const retry = parseGoogleError('Text Search', 429, {}, '30') as QuotaExceededError;
+    assert.ok(retry instanceof QuotaExceededError);
+    assert.equal(retry.code, 'RATE_LIMITED');
+    assert.ok(Math.abs(Date.parse(retry.resetsAt as string) - before - 30_000) < 1000);
+
+    const daily = parseGoogleError('Geocoding', 200, { status: 'OVER_QUERY_LIMIT', error_message: 'You have exceeded your daily request quota for this API.' });
+    const resetsInMs = Date.parse((daily as QuotaExceededError).resetsAt as string) - before;
+    assert.ok(resetsInMs > 0 && resetsInMs <= 24 * 3600 * 1000);
+
+    const unknown = parseGoogleError('Geocoding', 200, { status: 'OVER_QUERY_LIMIT' }) as QuotaExceededError;
+    assert.equal(unknown.resetsAt, null);
+    assert.match(unknown.hint as string, /midnight Pacific Time/);
+  });
+});
+
+describe('Google errors from the emulator', () => {
+  let emulator: RunningEmulator;
+  const retry = { maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0, timeoutMs: 5000, retryStatuses: [] };
+  const finder = new TurfFinder({ retry, resultCacheTtlMs: 0 });
+
+  before(async () => {
+    emulator = await startEmulator({ port: 0 });
+    setApiBaseUrl(emulator.url);
+  });
+
+  after(async () => {
+    setApiKey('test');
+    setApiBaseUrl(null);
+    await emulator.close();
+  });
+
+  beforeEach(() => {
+    clearCaches();
+  });
+
+  it('stops a search at the first request a disabled API refuses', async () => {
+    setApiKey('api-disabled');
+    const error = await finder.search({ lat: 12.9121, lng: 77.6446, radiusKm: 3 }).catch((e: unknown) => e);
+
+    assert.ok(error instanceof ApiNotEnabledError);
+    const { status, body } = toErrorResponse(error, 'Search failed');
+    assert.equal(status, 502);
+    assert.match(body.hint as string, /Enable the Places API \(New\)/);
+  });
+
+  it('maps restricted keys and exhausted quotas from both API generations', async () => {
+    setApiKey('key-restricted');
+    await assert.rejects(geocodeLocation('HSR Layout'), (error: unknown) => error instanceof ApiKeyRejectedError && error.restricted);
+
+    setApiKey('quota-exceeded');
+    // Quota failures skip the query instead of failing the whole search
+    const output = await finder.search({ lat: 12.9121, lng: 77.6446, radiusKm: 3, detailsLimit: 0 });
+    assert.equal(output.totalFound, 0);
+    await assert.rejects(geocodeLocation('HSR Layout'), (e: unknown) => e instanceof QuotaExceededError && e.resetsAt !== null);
+  });
+
+  it('lists skipped queries and places without details as warnings', async () => {
+    const request = { lat: 12.9121, lng: 77.6446, radiusKm: 3 };
+    setApiKey('test');
+    await finder.search({ ...request, detailsLimit: 0 });
+
+    // Searches are answered from cache; every Place Details call is over quota
+    setApiKey('quota-exceeded');
+    const partial = await finder.search({ ...request, detailsLimit: 2 });
+    const missing = partial.warnings.find((warning) => warning.code === 'details_missing');
+    assert.deepEqual(missing?.placeIds, partial.results.map((result) => result.placeId));
+    assert.ok(partial.warnings.some((warning) => warning.code === 'cached'));
+
+    clearCaches();
+    const skipped = await finder.search({ ...request, detailsLimit: 0 });
+    const queries = skipped.warnings.filter((warning) => warning.code === 'query_failed').map((warning) => warning.query);
+    assert.equal(queries[0], 'Nearby Search');
+    assert.ok(queries.length > 1);
+    assert.match(skipped.warnings[0].message, /over the Places API \(New\) quota/);
+  });
+});
+
+describe('Legacy API rate limiting', () => {
+  let server: http.Server;
+  let statuses: string[] = [];
+
+  before(async () => {
+    // Answers each geocode with the next queued status, as HTTP 200 like Google does
+    server = http.createServer((_req, res) => {
+      const status = statuses.shift() ?? 'OK';
+      const results = status === 'OK' ? [{ geometry: { location: { lat: 12.9, lng: 77.6 } }, formatted_address: 'HSR Layout' }] : [];
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ status, results }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    setApiBaseUrl(`http://localhost:${(server.address() as AddressInfo).port}`);
+    setApiKey('test');
+  });
+
+  after(async () => {
+    setApiBaseUrl(null);
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    clearCaches();
+  });
+
+  it('retries an OVER_QUERY_LIMIT answered with HTTP 200', async () => {
+    const context = new SearchContext({ retryPolicy: { maxRetries: 2, baseDelayMs: 0, maxDelayMs: 0, timeoutMs: 5000, retryStatuses: [] } });
+    statuses = ['OVER_QUERY_LIMIT', 'OVER_QUERY_LIMIT'];
+    const result = await geocodeLocation('HSR Layout', {}, context);
+
+    assert.equal(result.formattedAddress, 'HSR Layout');
+    assert.deepEqual(context.retries.map((retry) => retry.error), ['OVER_QUERY_LIMIT', 'OVER_QUERY_LIMIT']);
+
+    statuses = ['OVER_QUERY_LIMIT', 'OVER_QUERY_LIMIT', 'OVER_QUERY_LIMIT'];
+    await assert.rejects(geocodeLocation('Koramangala', {}, context), QuotaExceededError);
+    assert.equal(context.failures.at(-1)?.attempts, 3);
+  });
+});
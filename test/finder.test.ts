@@ -0,0 +1,277 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { startEmulator, RunningEmulator } from '../src/emulator/server';
+import { TurfFinder } from '../src/finder';
+import { clearCaches, invalidatePlace, setApiBaseUrl, setApiKey } from '../src/google';
+import { SearchOutput, ValidationError } from '../src/types';
+import { getLocality } from '../src/areas';
+import { haversineDistance, isPointInArea } from '../src/distance';
+
+describe('TurfFinder against the emulator', () => {
+  let emulator: RunningEmulator;
+  const retry = { maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0, timeoutMs: 5000, retryStatuses: [] };
+  const finder = new TurfFinder({ retry });
+
+  before(async () => {
+    emulator = await startEmulator({ port: 0 });
+    setApiBaseUrl(emulator.url);
+    setApiKey('test');
+  });
+
+  after(async () => {
+    setApiBaseUrl(null);
+    await emulator.close();
+  });
+
+  beforeEach(() => {
+    clearCaches();
+  });
+
+  it('geocodes, filters by relevance and radius, and sorts by distance', async () => {
+    const output = await finder.search({ location: 'HSR Layout, Bengaluru', radiusKm: 5 });
+    const names = output.results.map((result) => result.name);
+
+    assert.equal(output.query.formattedAddress, 'HSR Layout, Bengaluru, Karnataka, India');
+    assert.ok(output.results.length > 0);
+    assert.ok(!names.includes('Strike Zone Bowling'));
+    assert.ok(!names.includes('Hops Sports Bar'));
+    assert.ok(!names.includes('Whitefield Turf Arena'));
+    assert.ok(output.results.every((result) => result.distanceKm <= 5));
+
+    const distances = output.results.map((result) => result.distanceKm);
+    assert.deepEqual(distances, [...distances].sort((a, b) => a - b));
+  });
+
+  it('follows Text Search page tokens when more than one page is needed', async () => {
+    const output = await finder.search({ lat: 12.9121, lng: 77.6446, radiusKm: 5, keyword: 'turf', maxResults: 25, detailsLimit: 0 });
+
+    assert.ok(output.totalFound > 20);
+    assert.ok((output.usage.skus.text_search_enterprise?.calls || 0) >= 2);
+  });
+
+  it('marks fields a narrower detail level did not request', async () => {
+    const output = await finder.search({ lat: 12.9121, lng: 77.6446, radiusKm: 3, detailLevel: 'basic', detailsLimit: 3 });
+
+    assert.ok(output.results.length > 0);
+    for (const result of output.results) {
+      assert.equal(result.phone, null);
+      assert.deepEqual(result.unrequestedFields, ['phone', 'topReviews']);
+    }
+    assert.equal(output.usage.skus.place_details_pro?.calls, output.results.length);
+    assert.equal(output.usage.skus.place_details_enterprise_atmosphere, undefined);
+  });
+
+  it('counts cache hits separately from billable calls', async () => {
+    const request = { lat: 12.9121, lng: 77.6446, radiusKm: 3, detailsLimit: 2 };
+    const uncachedFinder = new TurfFinder({ retry, resultCacheTtlMs: 0 });
+    const first = await uncachedFinder.search(request);
+    const second = await uncachedFinder.search(request);
+
+    assert.ok(first.usage.totalCalls > 0);
+    assert.equal(second.usage.totalCalls, 0);
+    assert.equal(second.usage.cacheHits['Place Details'], 2);
+  });
+
+  it('answers a smaller search inside a cached one without calling Google', async () => {
+    const uncachedFinder = new TurfFinder({ retry, resultCacheTtlMs: 0 });
+    const wide = await uncachedFinder.search({ lat: 12.9121, lng: 77.6446, radiusKm: 5, detailsLimit: 0 });
+    const narrow = await uncachedFinder.search({ lat: 12.9125, lng: 77.644, radiusKm: 3, detailsLimit: 0 });
+
+    assert.ok((wide.usage.skus.text_search_enterprise?.calls || 0) > 0);
+    assert.equal(narrow.usage.skus.text_search_enterprise, undefined);
+    assert.ok((narrow.usage.cacheHits['Text Search'] || 0) > 0);
+    assert.ok(narrow.totalFound > 0 && narrow.totalFound < wide.totalFound);
+    assert.ok(narrow.results.every((result) => result.distanceKm <= 3));
+  });
+
+  it('refetches the details of an invalidated place', async () => {
+    const request = { lat: 12.9121, lng: 77.6446, radiusKm: 3, detailsLimit: 2 };
+    const first = await finder.search(request);
+
+    assert.equal(invalidatePlace(first.results[0].placeId), 1);
+    const second = await finder.search(request);
+    assert.equal(second.usage.cacheHits['Place Details'], 1);
+    assert.equal(second.usage.skus.place_details_enterprise_atmosphere?.calls, 1);
+  });
+
+  it('keeps only places inside a locality and measures from the reference point', async () => {
+    const reference = { lat: 12.9121, lng: 77.6446 };
+    const output = await finder.search({ ...reference, locality: 'HSR Layout', detailsLimit: 30 });
+    const hsr = getLocality('HSR Layout').geometry;
+
+    assert.deepEqual(output.query.area, { name: 'HSR Layout', type: 'Polygon' });
+    assert.deepEqual(output.query.city, { id: 'bangalore', name: 'Bengaluru' });
+    assert.ok(output.results.length > 0);
+    for (const result of output.results) {
+      assert.ok(isPointInArea({ lat: result.lat as number, lng: result.lng as number }, hsr), `${result.name} is outside HSR Layout`);
+      const expectedKm = haversineDistance(reference, { lat: result.lat as number, lng: result.lng as number });
+      assert.ok(Math.abs(result.distanceKm - expectedKm) < 0.01);
+    }
+  });
+
+  it('runs identical concurrent searches once', async () => {
+    const request = { lat: 12.9121, lng: 77.6446, radiusKm: 3, detailsLimit: 2 };
+    const [first, second] = await Promise.all([finder.search(request), finder.search(request)]);
+
+    assert.equal(first.cache.status, 'fresh');
+    assert.equal(second.cache.status, 'coalesced');
+    assert.ok(first.usage.totalCalls > 0);
+    assert.equal(second.usage.totalCalls, 0);
+    assert.deepEqual(second.results, first.results);
+
+    const third = await finder.search(request);
+    assert.equal(third.cache.status, 'fresh');
+    assert.equal(third.generatedAt, first.generatedAt);
+    assert.equal(third.usage.totalCalls, 0);
+  });
+
+  it('warns when a result is reused or the location is outside every city', async () => {
+    const request = { lat: 12.9121, lng: 77.6446, radiusKm: 3, detailsLimit: 2 };
+    const first = await finder.search(request);
+    const reused = await finder.search(request);
+
+    assert.deepEqual(first.warnings, []);
+    assert.deepEqual(reused.warnings.map((warning) => warning.code), ['cached']);
+    assert.match(reused.warnings[0].message, /Reused a result from \d+s ago/);
+
+    const remote = await finder.search({ lat: 0.5, lng: 0.5, radiusKm: 3, detailsLimit: 0 });
+    assert.equal(remote.query.city, null);
+    assert.deepEqual(remote.warnings.map((warning) => warning.code), ['outside_cities']);
+  });
+
+  it('serves a stale result while refreshing it in the background', async () => {
+    let onRevalidated: (output: SearchOutput) => void = () => {};
+    const revalidated = new Promise<SearchOutput>((resolve) => (onRevalidated = resolve));
+    const swrFinder = new TurfFinder({ retry, resultCacheTtlMs: 200, staleWhileRevalidateMs: 60_000, onRevalidated });
+    const request = { lat: 12.9121, lng: 77.6446, radiusKm: 2, detailsLimit: 1 };
+
+    const first = await swrFinder.search(request);
+    await new Promise((resolve) => setTimeout(resolve, 250));
+
+    const stale = await swrFinder.search(request);
+    assert.equal(stale.cache.status, 'stale');
+    assert.ok(stale.cache.ageMs > 200);
+    assert.equal(stale.generatedAt, first.generatedAt);
+
+    const refreshed = await revalidated;
+    const next = await swrFinder.search(request);
+    assert.equal(next.cache.status, 'fresh');
+    assert.equal(next.generatedAt, refreshed.generatedAt);
+  });
+
+  it('stops running keyword queries once the budget is reached', async () => {
+    const output = await finder.search({ lat: 12.9121, lng: 77.6446, radiusKm: 5, maxResults: 60, budgetUsd: 0.05, detailsLimit: 0 });
+
+    assert.equal(output.usage.budgetExhausted, true);
+    assert.ok(output.usage.skippedQueries > 0);
+  });
+
+  it('filters and ranks by travel time from the search location', async () => {
+    const request = { lat: 12.9121, lng: 77.6446, radiusKm: 8, detailsLimit: 30 };
+    const byDistance = await finder.search(request);
+    const output = await finder.search({ ...request, travelMode: 'walking', maxTravelMinutes: 30 });
+
+    assert.deepEqual(output.query.travel, { mode: 'walking', maxMinutes: 30, departureTime: null });
+    assert.ok(output.results.length > 0 && output.results.length < byDistance.results.length);
+    const seconds = output.results.map((result) => result.travel?.durationSeconds as number);
+    assert.ok(seconds.every((value) => value > 0 && value <= 30 * 60));
+    assert.deepEqual(seconds, [...seconds].sort((a, b) => a - b));
+    assert.equal(output.usage.skus.distance_matrix?.calls, byDistance.totalFound);
+    assert.ok(byDistance.results.every((result) => result.travel === null));
+  });
+
+  it('uses traffic-aware driving times for a departure time', async () => {
+    const request = { lat: 12.9121, lng: 77.6446, radiusKm: 3, detailsLimit: 3, travelMode: 'driving' as const };
+    const [free] = (await finder.search(request)).results;
+    const [rush] = (await finder.search({ ...request, departureTime: 'now' })).results;
+
+    assert.equal(rush.placeId, free.placeId);
+    assert.ok((rush.travel?.durationSeconds as number) > (free.travel?.durationSeconds as number));
+    assert.throws(() => finder.validateRequest({ ...request, departureTime: 'soon' }), /departureTime/);
+    assert.throws(
+      () => finder.validateRequest({ ...request, departureTime: new Date(Date.now() - 60_000).toISOString() }),
+      (error: unknown) => error instanceof ValidationError && error.issues.some((issue) => issue.field === 'departureTime')
+    );
+  });
+
+  it('says when two-wheeler times are driving times and bills traffic as Advanced', async () => {
+    const output = await finder.search({ lat: 12.9121, lng: 77.6446, radiusKm: 3, detailsLimit: 3, travelMode: 'two-wheeler', departureTime: 'now' });
+    const [first] = output.results;
+
+    assert.equal(first.travel?.mode, 'two-wheeler');
+    assert.equal(first.travel?.modeUsed, 'driving');
+    assert.ok(output.warnings.some((warning) => warning.code === 'travel_mode_fallback'));
+    assert.equal(output.usage.skus.distance_matrix, undefined);
+    assert.equal(output.usage.skus.distance_matrix_advanced?.calls, output.totalFound);
+    assert.equal(output.usage.skus.distance_matrix_advanced?.estimatedCostUsd, (output.totalFound * 10) / 1000);
+  });
+
+  it('keeps explicit 0,0 coordinates given with a location name', async () => {
+    const request = { location: 'HSR Layout', lat: 0, lng: 0, radiusKm: 3, detailsLimit: 0 };
+    const output = await finder.search(request);
+    const plan = await finder.plan(request);
+
+    assert.deepEqual([output.query.lat, output.query.lng], [0, 0]);
+    assert.equal(output.usage.skus.geocoding, undefined);
+    assert.equal(plan.geocodeRequired, false);
+  });
+
+  it('takes the city and its default radius from a geocoded neighbourhood', async () => {
+    // "Koramangala" names no city; only its coordinates put it in Bengaluru
+    const wideFinder = new TurfFinder({ retry, defaultRadiusKm: 8 });
+    const output = await wideFinder.search({ location: 'Koramangala', detailsLimit: 0 });
+    const explicit = await wideFinder.search({ location: 'Koramangala', radiusKm: 2, detailsLimit: 0 });
+
+    assert.equal(output.query.city?.id, 'bangalore');
+    assert.equal(output.query.radiusKm, 5);
+    assert.equal(explicit.query.radiusKm, 2);
+  });
+
+  it('plans a dry run from cache state without calling Google', async () => {
+    const request = { location: 'Koramangala', radiusKm: 3, detailsLimit: 5 };
+    const before = await finder.plan(request);
+    assert.equal(before.geocodeRequired, true);
+    assert.equal(before.calls.Geocoding, 1);
+
+    await finder.search(request);
+    const after = await finder.plan(request);
+    assert.equal(after.geocodeRequired, false);
+    assert.equal(after.calls.Geocoding, 0);
+    assert.equal(after.calls['Text Search'], 0);
+    assert.ok((after.estimate.cacheHits['Text Search'] || 0) > 0);
+  });
+});
+
+describe('TurfFinder in a city found by geocoding', () => {
+  let emulator: RunningEmulator;
+  const finder = new TurfFinder({ retry: { maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0, timeoutMs: 5000, retryStatuses: [] } });
+
+  before(async () => {
+    const geocodes = [{ query: 'Andheri', lat: 19.1197, lng: 72.8468, formattedAddress: 'Andheri, Mumbai, Maharashtra, India' }];
+    emulator = await startEmulator({ port: 0, fixtures: { geocodes, places: [] } });
+    setApiBaseUrl(emulator.url);
+    setApiKey('test');
+  });
+
+  after(async () => {
+    setApiBaseUrl(null);
+    await emulator.close();
+  });
+
+  it('plans the same calls as the search once the location is geocoded', async () => {
+    // No places, so the search runs every keyword and matches the plan's upper bound
+    const request = { location: 'Andheri', sport: 'football', maxResults: 20, detailsLimit: 0 };
+    clearCaches();
+    await finder.resolveQuery(request);
+
+    const plan = await finder.plan(request);
+    const output = await finder.search(request);
+
+    assert.equal(plan.query.city?.id, 'mumbai');
+    assert.equal(plan.query.radiusKm, 4);
+    assert.deepEqual(plan.query, output.query);
+    assert.ok(plan.keywords.includes('football turf booking'));
+    assert.deepEqual(plan.estimate.skus, output.usage.skus);
+  });
+});
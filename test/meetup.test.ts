@@ -0,0 +1,80 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { startEmulator, RunningEmulator } from '../src/emulator/server';
+import { TurfFinder } from '../src/finder';
+import { clearCaches, getTravelLegs, setApiBaseUrl, setApiKey } from '../src/google';
+import { parseMeetupOrigin } from '../src/meetup';
+import { SearchContext } from '../src/context';
+import { ValidationError } from '../src/types';
+
+describe('Meetup search against the emulator', () => {
+  let emulator: RunningEmulator;
+  const retry = { maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0, timeoutMs: 5000, retryStatuses: [] };
+  const finder = new TurfFinder({ retry });
+  const origins = ['Asha=HSR Layout, Bengaluru', 'Ravi=Indiranagar, Bengaluru', '12.9352,77.6245'];
+
+  before(async () => {
+    emulator = await startEmulator({ port: 0 });
+    setApiBaseUrl(emulator.url);
+    setApiKey('test');
+  });
+
+  after(async () => {
+    setApiBaseUrl(null);
+    await emulator.close();
+  });
+
+  beforeEach(() => {
+    clearCaches();
+  });
+
+  it('parses names, addresses and coordinates', () => {
+    assert.deepEqual(parseMeetupOrigin('Asha=HSR Layout'), { name: 'Asha', location: 'HSR Layout' });
+    assert.deepEqual(parseMeetupOrigin('12.93, 77.62'), { name: undefined, lat: 12.93, lng: 77.62 });
+    assert.deepEqual(parseMeetupOrigin('Koramangala, Bengaluru'), { name: undefined, location: 'Koramangala, Bengaluru' });
+  });
+
+  it('ranks by the farthest player and breaks distances down per player', async () => {
+    const output = await finder.meetup({ origins, detailsLimit: 5 });
+
+    assert.deepEqual(output.query.origins.map((o) => o.name), ['Asha', 'Ravi', 'Player 3']);
+    assert.equal(output.query.city?.id, 'bangalore');
+    assert.ok(output.results.length > 0);
+
+    const scores = output.results.map((result) => result.maxDistanceKm);
+    assert.deepEqual(scores, [...scores].sort((a, b) => a - b));
+    for (const result of output.results) {
+      assert.equal(result.players.length, 3);
+      assert.equal(result.maxDistanceKm, Math.max(...result.players.map((p) => p.distanceKm)));
+      assert.equal(result.maxTravelSeconds, null);
+    }
+  });
+
+  it('ranks by total driving time when asked', async () => {
+    const output = await finder.meetup({ origins, rankBy: 'total', travelTime: true, detailsLimit: 5 });
+
+    const totals = output.results.map((result) => result.totalTravelSeconds as number);
+    assert.ok(totals.every((total) => total > 0));
+    assert.deepEqual(totals, [...totals].sort((a, b) => a - b));
+    assert.equal(output.usage.skus.distance_matrix?.calls, 3 * output.results.length);
+  });
+
+  it('batches Distance Matrix requests under the element limit', async () => {
+    const context = new SearchContext({ retryPolicy: retry });
+    const players = Array.from({ length: 5 }, (_, i) => ({ lat: 12.9 + i * 0.01, lng: 77.6 }));
+    const turfs = Array.from({ length: 30 }, (_, i) => ({ lat: 12.95, lng: 77.6 + i * 0.002 }));
+
+    const legs = await getTravelLegs(players, turfs, { mode: 'walking' }, context);
+
+    assert.equal(legs.length, 5);
+    assert.ok(legs.every((row) => row.length === 30 && row.every((leg) => leg !== null && leg.durationSeconds > 0)));
+    assert.equal(context.usage.toReport().skus.distance_matrix?.calls, 150);
+    assert.equal(context.failures.length, 0);
+  });
+
+  it('rejects too few players and origins without a location', async () => {
+    await assert.rejects(finder.meetup({ origins: ['HSR Layout'] }), ValidationError);
+    await assert.rejects(finder.meetup({ origins: ['HSR Layout', { name: 'Nobody' }] }), /Origin 2/);
+  });
+});
@@ -0,0 +1,79 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { MemoryCacheStore, TtlCache, searchCache, setCacheStore } from '../src/cache';
+import { circleContains, findCoveringSearch, rememberSearchArea } from '../src/spatial';
+import { startEmulator, RunningEmulator } from '../src/emulator/server';
+import { setApiBaseUrl, setApiKey, textSearch } from '../src/google';
+import { SearchContext } from '../src/context';
+import { NearbySearchPlace } from '../src/types';
+
+const HSR = { lat: 12.9121, lng: 77.6446 };
+
+function place(id: string, lat: number, lng: number): NearbySearchPlace {
+  return { id, location: { latitude: lat, longitude: lng } } as NearbySearchPlace;
+}
+
+describe('Spatial search reuse', () => {
+  const query = { type: 'text', textQuery: 'football turf' };
+  const outer = { ...HSR, radiusMeters: 5000 };
+  const places = [place('near', 12.9131, 77.6446), place('mid', 12.9301, 77.6446), place('far', 12.9521, 77.6446)];
+
+  beforeEach(() => {
+    setCacheStore(new MemoryCacheStore());
+    const key = TtlCache.generateKey({ type: 'text', ...outer });
+    searchCache.set(key, places);
+    rememberSearchArea(query, outer, key);
+  });
+
+  it('checks circle containment by center distance plus radius', () => {
+    assert.ok(circleContains(outer, { ...HSR, radiusMeters: 3000 }));
+    assert.ok(circleContains(outer, { lat: 12.9166, lng: 77.6446, radiusMeters: 4000 }));
+    assert.ok(!circleContains(outer, { lat: 12.9256, lng: 77.6446, radiusMeters: 4000 }));
+    assert.ok(!circleContains(outer, { ...HSR, radiusMeters: 6000 }));
+  });
+
+  it('answers a smaller circle inside a cached search by distance', () => {
+    const covering = findCoveringSearch(query, { ...HSR, radiusMeters: 3000 }, 20);
+
+    assert.deepEqual(covering?.area, outer);
+    assert.deepEqual(covering?.places.map((p) => p.id), ['near', 'mid']);
+    assert.deepEqual(findCoveringSearch(query, { ...HSR, radiusMeters: 1000 }, 20)?.places.map((p) => p.id), ['near']);
+  });
+
+  it('ignores circles that are not covered and other queries', () => {
+    assert.equal(findCoveringSearch(query, { lat: 12.95, lng: 77.6446, radiusMeters: 2000 }, 20), null);
+    assert.equal(findCoveringSearch({ type: 'text', textQuery: 'box cricket' }, { ...HSR, radiusMeters: 1000 }, 20), null);
+  });
+});
+
+describe('Spatial reuse of capped Text Searches', () => {
+  let emulator: RunningEmulator;
+  const crowded = Array.from({ length: 70 }, (_, i) => ({
+    id: `crowded_${i}`,
+    displayName: { text: `Turf ${i}` },
+    location: { latitude: HSR.lat + i * 0.0001, longitude: HSR.lng },
+  }));
+
+  before(async () => {
+    emulator = await startEmulator({ port: 0, fixtures: { geocodes: [], places: crowded } });
+    setApiBaseUrl(emulator.url);
+    setApiKey('test');
+    setCacheStore(new MemoryCacheStore());
+  });
+
+  after(async () => {
+    setApiBaseUrl(null);
+    await emulator.close();
+  });
+
+  it('does not answer a smaller circle from a search Google cut off at 60 places', async () => {
+    const context = new SearchContext();
+    const search = { textQuery: 'turf', ...HSR, maxResultCount: 100, maxPages: 5 };
+    const wide = await textSearch({ ...search, radiusMeters: 5000 }, context);
+    await textSearch({ ...search, radiusMeters: 2000 }, context);
+
+    assert.equal(wide.length, 60);
+    assert.equal(context.usage.toReport().cacheHits['Text Search'], undefined);
+  });
+});
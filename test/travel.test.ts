@@ -0,0 +1,80 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { startEmulator, RunningEmulator } from '../src/emulator/server';
+import { clearCaches, setApiBaseUrl, setApiKey } from '../src/google';
+import { getDistances, normalizeDepartureTime } from '../src/travel';
+import { ValidationError } from '../src/types';
+
+describe('Travel distances against the emulator', () => {
+  let emulator: RunningEmulator;
+  const retry = { maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0, timeoutMs: 5000, retryStatuses: [] };
+  const hsr = { lat: 12.9121, lng: 77.6446 };
+
+  before(async () => {
+    emulator = await startEmulator({ port: 0 });
+    setApiBaseUrl(emulator.url);
+    setApiKey('test');
+  });
+
+  after(async () => {
+    setApiBaseUrl(null);
+    await emulator.close();
+  });
+
+  beforeEach(() => {
+    clearCaches();
+  });
+
+  it('batches more than 25 destinations and reports meters and seconds per mode', async () => {
+    const destinations = Array.from({ length: 30 }, (_, index) => ({
+      id: `turf-${index}`,
+      lat: hsr.lat + index * 0.002,
+      lng: hsr.lng,
+    }));
+    const output = await getDistances({ origin: hsr, destinations, modes: ['driving', 'walking'] }, retry);
+
+    assert.deepEqual(output.modes, ['driving', 'walking']);
+    assert.deepEqual(output.results.map((result) => result.id), destinations.map((d) => d.id));
+    assert.equal(output.usage.skus.distance_matrix?.calls, 60);
+
+    const last = output.results[29].travel;
+    assert.equal(last.driving?.status, 'OK');
+    assert.equal(last.walking?.status, 'OK');
+    if (last.driving?.status === 'OK' && last.walking?.status === 'OK') {
+      assert.ok(last.driving.distanceMeters > 0);
+      assert.ok(last.walking.durationSeconds > last.driving.durationSeconds);
+      assert.equal(typeof last.driving.durationText, 'string');
+    }
+  });
+
+  it('geocodes an address origin and marks unreachable destinations', async () => {
+    const output = await getDistances(
+      {
+        origin: 'HSR Layout, Bengaluru',
+        destinations: [
+          { id: 'near', lat: 12.9352, lng: 77.6245 },
+          { id: 'london', lat: 51.5072, lng: -0.1276 },
+        ],
+      },
+      retry
+    );
+
+    assert.deepEqual(output.origin, hsr);
+    assert.deepEqual(output.modes, ['driving', 'bicycling']);
+    assert.equal(output.results[0].travel.bicycling?.status, 'OK');
+    assert.deepEqual(output.results[1].travel.driving, { status: 'ZERO_RESULTS' });
+  });
+
+  it('rejects malformed requests before calling Google', async () => {
+    const destinations = [{ id: 'a', lat: 12.93, lng: 77.62 }];
+
+    await assert.rejects(getDistances({ origin: hsr, destinations: [] }), ValidationError);
+    await assert.rejects(getDistances({ origin: hsr, destinations: [{ id: 'a', lat: 120, lng: 0 }] }), /Destination 1/);
+    await assert.rejects(getDistances({ origin: hsr, destinations, modes: ['flying' as never] }), /modes/);
+    await assert.rejects(getDistances({ origin: {} as never, destinations }), /origin/);
+    assert.equal(normalizeDepartureTime('now'), 'now');
+    assert.equal(normalizeDepartureTime('2099-01-05T18:30:00+05:30'), '2099-01-05T13:00:00.000Z');
+    assert.throws(() => normalizeDepartureTime('tonight'), ValidationError);
+  });
+});
@@ -0,0 +1,107 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { startEmulator, RunningEmulator } from '../src/emulator/server';
+import { TurfFinder } from '../src/finder';
+import { clearCaches, setApiBaseUrl, setApiKey } from '../src/google';
+import { readJsonBody, validateMeetupRequest, validateSearchRequest } from '../src/validation';
+import { getExitCode, toErrorResponse } from '../src/errors';
+import { ConfigurationError, GoogleApiError, ValidationError } from '../src/types';
+
+describe('Request validation', () => {
+  it('keeps known fields and drops nulls and unknown ones', () => {
+    const request = validateSearchRequest({ lat: 12.91, lng: 77.64, radiusKm: 5, keyword: null, extra: true });
+
+    assert.deepEqual(request, { lat: 12.91, lng: 77.64, radiusKm: 5 });
+  });
+
+  it('reports every invalid field at once', () => {
+    assert.throws(
+      () => validateSearchRequest({ lat: '12.91', lng: 77.64, radiusKm: 80, detailsLimit: -1, detailLevel: 'all' }),
+      (error: unknown) => {
+        assert.ok(error instanceof ValidationError);
+        assert.deepEqual(error.issues.map((issue) => issue.field), ['lat', 'radiusKm', 'detailsLimit', 'detailLevel']);
+        assert.match(error.message, /lat must be a number; radiusKm must be a number greater than 0 and at most 50/);
+        return true;
+      }
+    );
+  });
+
+  it('names fields the way the caller does', () => {
+    assert.throws(
+      () => validateSearchRequest({ budgetUsd: 0, maxPages: 1.5 }, (field) => `--${field}`),
+      /--maxPages must be an integer at least 1; --budgetUsd must be a number greater than 0/
+    );
+    assert.throws(() => validateMeetupRequest({ rankBy: 'max' }), /origins is required/);
+    assert.throws(() => validateSearchRequest([]), /JSON object/);
+  });
+
+  it('reports a malformed JSON body as a validation error', () => {
+    const vercelError = Object.assign(new Error('Invalid JSON'), { statusCode: 400 });
+    const thrown = (() => {
+      try {
+        readJsonBody(() => {
+          throw vercelError;
+        });
+      } catch (error) {
+        return error;
+      }
+    })();
+
+    const { status, body } = toErrorResponse(thrown, 'Search failed');
+    assert.equal(status, 400);
+    assert.equal(body.code, 'VALIDATION_ERROR');
+    assert.match(body.message, /must be valid JSON/);
+    assert.deepEqual(readJsonBody(() => undefined), {});
+  });
+
+  it('maps error codes to HTTP statuses, a stable body and exit codes', () => {
+    const invalid = toErrorResponse(new ValidationError('lat must be a number', [{ field: 'lat', message: 'must be a number' }]), 'Search failed');
+    assert.equal(invalid.status, 400);
+    assert.deepEqual(invalid.body, {
+      error: 'Validation error',
+      code: 'VALIDATION_ERROR',
+      message: 'lat must be a number',
+      issues: [{ field: 'lat', message: 'must be a number' }],
+    });
+
+    assert.equal(toErrorResponse(new GoogleApiError('Text search failed: 429', {}, 'RATE_LIMITED'), 'Search failed').status, 429);
+    assert.equal(toErrorResponse(new GoogleApiError('Text search failed: 500'), 'Search failed').status, 502);
+    assert.equal(toErrorResponse(new ConfigurationError('No key'), 'Search failed').status, 500);
+    assert.deepEqual(toErrorResponse(new Error('boom'), 'Search failed').body, { error: 'Search failed', code: 'INTERNAL_ERROR', message: 'boom' });
+    assert.equal(getExitCode(new ValidationError('bad')), 2);
+    assert.equal(getExitCode(new Error('boom')), 1);
+  });
+});
+
+describe('Search errors against the emulator', () => {
+  let emulator: RunningEmulator;
+  const retry = { maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0, timeoutMs: 5000, retryStatuses: [] };
+  const finder = new TurfFinder({ retry });
+
+  before(async () => {
+    emulator = await startEmulator({ port: 0 });
+    setApiBaseUrl(emulator.url);
+    setApiKey('test');
+    clearCaches();
+  });
+
+  after(async () => {
+    setApiBaseUrl(null);
+    await emulator.close();
+  });
+
+  it('answers a location Google cannot find with 404', async () => {
+    const error = await finder.search({ location: 'Atlantis', radiusKm: 3 }).catch((e: unknown) => e);
+    const { status, body } = toErrorResponse(error, 'Search failed');
+
+    assert.equal(status, 404);
+    assert.equal(body.code, 'NOT_FOUND');
+    assert.match(body.message, /No results found for location: "Atlantis"/);
+    assert.equal(getExitCode(error), 3);
+  });
+
+  it('rejects a string latitude before calling Google', async () => {
+    await assert.rejects(finder.search({ lat: '12.91' as never, lng: 77.64 }), /lat must be a number/);
+  });
+});